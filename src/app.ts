@@ -4,13 +4,20 @@ import { Firestore } from './firestore';
 import { Storage } from './storage';
 
 export class App {
+  private defaultFirestore?: Firestore;
+
   constructor(
     readonly settings: Settings | ServiceAccountUnderscored,
     readonly apiKey: string
   ) {}
 
-  firestore() {
-    return new Firestore(this.settings, this.apiKey);
+  /**
+   * Get the `Firestore` instance for `databaseId`, or for the database in the settings. Instances are created once per
+   * database and share their token cache.
+   */
+  firestore(databaseId?: string): Firestore {
+    if (!this.defaultFirestore) this.defaultFirestore = new Firestore(this.settings, this.apiKey);
+    return databaseId ? this.defaultFirestore.database(databaseId) : this.defaultFirestore;
   }
 
   auth() {
@@ -0,0 +1,143 @@
+import { StatusError } from '../status-error';
+import { decodeExplainMetrics, ExplainResults, type ExplainOptions } from './explain';
+import type { Query } from './reference';
+import { decodeValue } from './serializer';
+import { requestSymbol, runQuerySymbol, snapshotSymbol, structuredQuerySymbol } from './symbols';
+import type { DocumentData, ReadTransactionOptions, api } from './types';
+
+export type AggregateType = 'count' | 'sum' | 'avg';
+
+/**
+ * An aggregation to compute over the documents matching a query, for use with `Query.aggregate()`.
+ */
+export class AggregateField<R> {
+  /**
+   * Count the documents matching the query.
+   */
+  static count(): AggregateField<number> {
+    return new AggregateField('count');
+  }
+
+  /**
+   * Sum the numeric values of `field` across the documents matching the query. Documents where the field isn't a
+   * number are ignored.
+   */
+  static sum(field: string): AggregateField<number> {
+    return new AggregateField('sum', field);
+  }
+
+  /**
+   * Average the numeric values of `field` across the documents matching the query. Documents where the field isn't a
+   * number are ignored, and the result is `null` when there are none.
+   */
+  static average(field: string): AggregateField<number | null> {
+    return new AggregateField('avg', field);
+  }
+
+  // Only used to carry the result type, never set.
+  declare readonly resultType?: R;
+
+  private constructor(
+    readonly aggregateType: AggregateType,
+    readonly field?: string
+  ) {}
+
+  encode(alias: string): api.Aggregation {
+    if (this.aggregateType === 'count') return { alias, count: {} };
+    return { alias, [this.aggregateType]: { field: { fieldPath: this.field } } };
+  }
+}
+
+export const count = AggregateField.count;
+export const sum = AggregateField.sum;
+export const average = AggregateField.average;
+
+/**
+ * A map of aliases to the aggregations computed for them.
+ */
+export interface AggregateSpec {
+  [alias: string]: AggregateField<any>;
+}
+
+/**
+ * The results of an `AggregateSpec`, keyed by the same aliases.
+ */
+export type AggregateSpecData<A extends AggregateSpec> = {
+  [K in keyof A]: A[K] extends AggregateField<infer R> ? R : never;
+};
+
+/**
+ * A query that computes aggregations over the documents of a `Query` without retrieving them.
+ */
+export class AggregateQuery<A extends AggregateSpec, T = DocumentData> {
+  constructor(
+    readonly query: Query<T>,
+    readonly aggregations: A
+  ) {}
+
+  get(): Promise<AggregateQuerySnapshot<A, T>> {
+    return this[runQuerySymbol](this.query.ref.transactionOptions);
+  }
+
+  async [runQuerySymbol](consistency?: ReadTransactionOptions): Promise<AggregateQuerySnapshot<A, T>> {
+    return this[snapshotSymbol](await this[requestSymbol](consistency));
+  }
+
+  /**
+   * Get the plan the server uses for this aggregation. With `analyze`, it is also run and its results and execution
+   * stats are returned.
+   */
+  async explain(options: ExplainOptions = {}): Promise<ExplainResults<AggregateQuerySnapshot<A, T>>> {
+    const response = await this[requestSymbol](this.query.ref.transactionOptions, options);
+    const metrics = decodeExplainMetrics(response.find(e => e.explainMetrics)?.explainMetrics);
+    return new ExplainResults(metrics, options.analyze ? this[snapshotSymbol](response) : null);
+  }
+
+  private async [requestSymbol](
+    consistency?: ReadTransactionOptions,
+    explainOptions?: ExplainOptions
+  ): Promise<api.RunAggregationQueryResponse[]> {
+    const request: api.RunAggregationQueryRequest = {
+      structuredAggregationQuery: {
+        structuredQuery: this.query[structuredQuerySymbol](),
+        aggregations: Object.entries(this.aggregations).map(([alias, field]) => field.encode(alias)),
+      },
+      explainOptions,
+      ...consistency,
+    };
+    const response: api.RunAggregationQueryResponse[] = await this.query.ref.firestore.request(
+      'POST',
+      `${this.query.ref.parent.path}:runAggregationQuery`,
+      request
+    );
+    const error = response[0]?.error;
+    if (error) throw new StatusError(error.code, error.message, error.status);
+    return response;
+  }
+
+  private [snapshotSymbol](response: api.RunAggregationQueryResponse[]): AggregateQuerySnapshot<A, T> {
+    const result = response.find(e => e.result);
+    const fields = result?.result?.aggregateFields || {};
+    const data = {} as AggregateSpecData<A>;
+    for (const alias of Object.keys(this.aggregations)) {
+      const value = fields[alias];
+      (data as any)[alias] = value ? decodeValue(this.query.ref.firestore, value) : null;
+    }
+    return new AggregateQuerySnapshot(this, new Date(response.find(e => e.readTime)!.readTime), data);
+  }
+}
+
+/**
+ * The results of an `AggregateQuery`.
+ */
+export class AggregateQuerySnapshot<A extends AggregateSpec, T = DocumentData> {
+  constructor(
+    readonly query: AggregateQuery<A, T>,
+    readonly readTime: Date,
+    private readonly aggregateData: AggregateSpecData<A>
+  ) {}
+
+  data(): AggregateSpecData<A> {
+    return { ...this.aggregateData };
+  }
+}
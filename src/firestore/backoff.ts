@@ -0,0 +1,19 @@
+const initialDelay = 1000;
+const maxDelay = 60 * 1000;
+const backoffFactor = 1.5;
+const jitterFactor = 1;
+
+/**
+ * Delay for an exponentially increasing amount of time before retry `attempt` (0-based). The first attempt doesn't
+ * wait. Each delay is randomly jittered by up to `jitterFactor` of its length so retrying clients don't stampede.
+ */
+export async function backoff(attempt: number): Promise<void> {
+  if (attempt <= 0) return;
+  const delay = Math.min(initialDelay * Math.pow(backoffFactor, attempt - 1), maxDelay);
+  const jitter = delay * jitterFactor * (Math.random() * 2 - 1);
+  await sleep(Math.max(0, Math.min(delay + jitter, maxDelay)));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
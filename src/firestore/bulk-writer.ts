@@ -0,0 +1,327 @@
+import { BulkWriterError, StatusCode, StatusError } from '../status-error';
+import { backoff, sleep } from './backoff';
+import { Firestore } from './firestore';
+import { DocumentReference, FieldPath } from './reference';
+import { assertWritableSymbol, cacheSymbol, writesSymbol } from './symbols';
+import type {
+  DocumentData,
+  PartialWithFieldValue,
+  Precondition,
+  SetOptions,
+  UpdateData,
+  WithFieldValue,
+  api,
+} from './types';
+import { WriteBatch } from './write-batch';
+import { decodeWriteResult, type WriteResult } from './write-result';
+
+// Firestore recommends small batches for bulk writes to limit contention between them.
+const maxBatchSize = 20;
+// Cloudflare Workers allow 6 simultaneous open connections per request.
+const defaultMaxConcurrency = 6;
+const maxRetryAttempts = 10;
+// The 500/50/5 rule: start at 500 operations per second and increase by 50% every 5 minutes.
+const defaultInitialOpsPerSecond = 500;
+const defaultMaxOpsPerSecond = 10000;
+const rampUpFactor = 1.5;
+const rampUpInterval = 5 * 60 * 1000;
+const retryableCodes = new Set([StatusCode.ABORTED, StatusCode.UNAVAILABLE, StatusCode.RESOURCE_EXHAUSTED]);
+
+export type BulkWriterOperationType = 'create' | 'set' | 'update' | 'delete';
+
+export interface BulkWriterOptions {
+  /**
+   * Throttle writes following the 500/50/5 rule. Pass `false` to disable throttling, or the rates to use. Defaults to
+   * starting at 500 operations per second and ramping up to at most 10,000.
+   */
+  throttling?: boolean | { initialOpsPerSecond?: number; maxOpsPerSecond?: number };
+  /**
+   * The maximum number of `:batchWrite` requests in flight at once. Defaults to 6.
+   */
+  maxConcurrency?: number;
+}
+
+interface BulkWriterOperation {
+  ref: DocumentReference<any>;
+  type: BulkWriterOperationType;
+  write: api.Write;
+  failedAttempts: number;
+  resolve(result: WriteResult): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Writes any number of documents, sending them in small parallel `:batchWrite` requests. Writes are not atomic: each
+ * one succeeds or fails on its own, and failures that are likely to succeed later are retried with backoff. Writes to
+ * the same document are applied in the order they were made.
+ *
+ * ```
+ * const writer = firestore.bulkWriter();
+ * writer.onWriteError(error => error.failedAttempts < 3);
+ * for (const user of users) writer.set(firestore.doc(`users/${user.id}`), user);
+ * await writer.close();
+ * ```
+ */
+export class BulkWriter {
+  private queue: BulkWriterOperation[] = [];
+  private pending = new Set<Promise<void>>();
+  // Documents with a write in flight or waiting to be retried, which later writes to them must wait for.
+  private busy = new Set<string>();
+  private inFlight = 0;
+  private closed = false;
+  private readonly maxConcurrency: number;
+  private readonly rateLimiter?: RateLimiter;
+  private successCallback: (ref: DocumentReference<any>, result: WriteResult) => void = () => {};
+  private errorCallback: (error: BulkWriterError) => boolean = error =>
+    retryableCodes.has(error.code) && error.failedAttempts < maxRetryAttempts;
+
+  constructor(
+    readonly firestore: Firestore,
+    options?: BulkWriterOptions
+  ) {
+    this.maxConcurrency = options?.maxConcurrency ?? defaultMaxConcurrency;
+    const throttling = options?.throttling ?? true;
+    if (throttling) {
+      const { initialOpsPerSecond = defaultInitialOpsPerSecond, maxOpsPerSecond = defaultMaxOpsPerSecond } =
+        throttling === true ? {} : throttling;
+      this.rateLimiter = new RateLimiter(initialOpsPerSecond, Math.max(initialOpsPerSecond, maxOpsPerSecond));
+    }
+  }
+
+  create<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): Promise<WriteResult | undefined> {
+    return this.enqueue(ref, 'create', batch => batch.create(ref, data));
+  }
+
+  set<T = DocumentData>(
+    ref: DocumentReference<T>,
+    data: PartialWithFieldValue<T>,
+    options?: SetOptions
+  ): Promise<WriteResult | undefined>;
+  set<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): Promise<WriteResult | undefined>;
+  set<T = DocumentData>(
+    ref: DocumentReference<T>,
+    data: PartialWithFieldValue<T>,
+    options?: SetOptions
+  ): Promise<WriteResult | undefined> {
+    return this.enqueue(ref, 'set', batch => batch.set(ref, data, options));
+  }
+
+  update<T = DocumentData>(
+    ref: DocumentReference<T>,
+    data: UpdateData<T>,
+    precondition?: Precondition
+  ): Promise<WriteResult | undefined>;
+  update<T = DocumentData>(
+    ref: DocumentReference<T>,
+    field: string | FieldPath,
+    value: unknown,
+    ...moreFieldsAndValues: unknown[]
+  ): Promise<WriteResult | undefined>;
+  update<T = DocumentData>(
+    ref: DocumentReference<T>,
+    dataOrField: UpdateData<T> | string | FieldPath,
+    ...rest: unknown[]
+  ): Promise<WriteResult | undefined> {
+    return this.enqueue(ref, 'update', batch => batch.update(ref, dataOrField as string, ...(rest as [unknown])));
+  }
+
+  delete<T = DocumentData>(ref: DocumentReference<T>, precondition?: Precondition): Promise<WriteResult | undefined> {
+    return this.enqueue(ref, 'delete', batch => batch.delete(ref, precondition));
+  }
+
+  /**
+   * Called with the result of every write that succeeds.
+   */
+  onWriteResult(callback: (ref: DocumentReference<any>, result: WriteResult) => void): void {
+    this.successCallback = callback;
+  }
+
+  /**
+   * Called for every failed attempt of a write. Return `true` to retry it. By default writes failing with `ABORTED`,
+   * `UNAVAILABLE` or `RESOURCE_EXHAUSTED` are retried up to 10 times.
+   */
+  onWriteError(shouldRetryCallback: (error: BulkWriterError) => boolean): void {
+    this.errorCallback = shouldRetryCallback;
+  }
+
+  /**
+   * Resolves once every write made so far has succeeded or finally failed, including retries. Failures are reported
+   * through the writes' promises and `onWriteError()`, never by `flush()`.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pending));
+  }
+
+  /**
+   * Flushes all writes and prevents any more from being made.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.flush();
+  }
+
+  private enqueue(
+    ref: DocumentReference<any>,
+    type: BulkWriterOperationType,
+    build: (batch: WriteBatch) => WriteBatch
+  ): Promise<WriteResult | undefined> {
+    if (this.closed) throw new Error('BulkWriter has already been closed.');
+    this.firestore[assertWritableSymbol]();
+    const [write] = build(new WriteBatch(this.firestore))[writesSymbol];
+    // An update without changes is a no-op
+    if (!write) return Promise.resolve(undefined);
+
+    const promise = new Promise<WriteResult | undefined>((resolve, reject) => {
+      this.queue.push({ ref, type, write, failedAttempts: 0, resolve, reject });
+    });
+    const settled = promise.then(
+      () => {},
+      () => {}
+    );
+    this.pending.add(settled);
+    settled.then(() => this.pending.delete(settled));
+    this.schedule();
+    return promise;
+  }
+
+  private schedule() {
+    while (this.inFlight < this.maxConcurrency) {
+      const batch = this.nextBatch();
+      if (!batch.length) return;
+      this.inFlight++;
+      this.send(batch).finally(() => {
+        this.inFlight--;
+        this.schedule();
+      });
+    }
+  }
+
+  /**
+   * Take the next writes to send. `:batchWrite` allows only one write per document, and later writes to a document
+   * must wait for earlier ones to finish, so those are left in the queue.
+   */
+  private nextBatch(): BulkWriterOperation[] {
+    const batch: BulkWriterOperation[] = [];
+    const blocked = new Set<string>();
+    for (let i = 0; i < this.queue.length && batch.length < maxBatchSize;) {
+      const op = this.queue[i]!;
+      const path = op.ref.qualifiedPath;
+      if (this.busy.has(path) || blocked.has(path)) {
+        blocked.add(path);
+        i++;
+      } else {
+        this.queue.splice(i, 1);
+        this.busy.add(path);
+        blocked.add(path);
+        batch.push(op);
+      }
+    }
+    return batch;
+  }
+
+  private async send(batch: BulkWriterOperation[]) {
+    await this.rateLimiter?.acquire(batch.length);
+    let response: api.BatchWriteResponse | undefined;
+    let requestError: unknown;
+    try {
+      response = await this.firestore.request<api.BatchWriteResponse>('POST', ':batchWrite', {
+        writes: batch.map(op => op.write),
+      });
+    } catch (err) {
+      requestError = err;
+    }
+    await this.firestore[cacheSymbol]?.invalidate(batch.map(op => op.write));
+
+    batch.forEach((op, i) => {
+      const status = response?.status?.[i];
+      if (response && !status?.code) {
+        this.succeed(op, decodeWriteResult(this.firestore, op.write, response.writeResults[i]));
+      } else if (status) {
+        this.fail(op, status.code, status.message ?? '');
+      } else {
+        this.fail(op, statusCode(requestError), (requestError as Error)?.message ?? String(requestError));
+      }
+    });
+  }
+
+  private succeed(op: BulkWriterOperation, result: WriteResult) {
+    this.busy.delete(op.ref.qualifiedPath);
+    try {
+      this.successCallback(op.ref, result);
+      op.resolve(result);
+    } catch (err) {
+      op.reject(err as Error);
+    }
+  }
+
+  private fail(op: BulkWriterOperation, code: number, message: string) {
+    op.failedAttempts++;
+    const error = new BulkWriterError(code, message, op.ref, op.type, op.failedAttempts);
+    let retry: boolean;
+    try {
+      retry = this.errorCallback(error);
+    } catch (err) {
+      this.busy.delete(op.ref.qualifiedPath);
+      op.reject(err as Error);
+      return;
+    }
+    if (!retry) {
+      this.busy.delete(op.ref.qualifiedPath);
+      op.reject(error);
+      return;
+    }
+    // Keep the document busy while waiting so later writes to it stay behind the retry.
+    backoff(op.failedAttempts).then(() => {
+      this.busy.delete(op.ref.qualifiedPath);
+      this.queue.unshift(op);
+      this.schedule();
+    });
+  }
+}
+
+/**
+ * The status code of a failed request, which Firestore reports by name.
+ */
+function statusCode(error: unknown): number {
+  if (error instanceof StatusError && error.status && error.status in StatusCode) {
+    return StatusCode[error.status as keyof typeof StatusCode];
+  }
+  return StatusCode.UNKNOWN;
+}
+
+/**
+ * A token bucket whose rate grows by 50% every 5 minutes, up to a maximum.
+ */
+class RateLimiter {
+  private tokens: number;
+  private readonly startTime = Date.now();
+  private lastRefill = this.startTime;
+
+  constructor(
+    private readonly initialOpsPerSecond: number,
+    private readonly maxOpsPerSecond: number
+  ) {
+    this.tokens = initialOpsPerSecond;
+  }
+
+  async acquire(count: number): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      const capacity = this.capacity(now);
+      this.tokens = Math.min(capacity, this.tokens + ((now - this.lastRefill) * capacity) / 1000);
+      this.lastRefill = now;
+      // Never ask for more than a second's worth, or low rates could never be satisfied.
+      const needed = Math.min(count, capacity);
+      if (this.tokens >= needed) {
+        this.tokens -= needed;
+        return;
+      }
+      await sleep(Math.ceil(((needed - this.tokens) * 1000) / capacity));
+    }
+  }
+
+  private capacity(now: number): number {
+    const intervals = Math.floor((now - this.startTime) / rampUpInterval);
+    return Math.min(this.maxOpsPerSecond, Math.floor(this.initialOpsPerSecond * Math.pow(rampUpFactor, intervals)));
+  }
+}
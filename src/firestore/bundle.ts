@@ -0,0 +1,131 @@
+import { DocumentSnapshot } from './document';
+import type { Firestore } from './firestore';
+import type { QuerySnapshot } from './reference';
+import { bundledQuerySymbol, docSymbol, readTimeSymbol } from './symbols';
+import { Timestamp } from './timestamp';
+import type { api } from './types';
+
+// The version of the bundle format the client SDKs read
+const bundleVersion = 1;
+
+interface BundledDocument {
+  doc: api.Document;
+  exists: boolean;
+  readTime: Timestamp;
+  queries: Set<string>;
+}
+
+/**
+ * Builds a Firestore data bundle from documents and query results, which the web SDK's `loadBundle()` loads into its
+ * cache so the client doesn't have to read them again. Each element of the bundle is prefixed by its length in bytes.
+ *
+ * ```
+ * const bundle = firestore.bundle('home').add(await settingsRef.get()).add('latest-posts', await latest.get()).build();
+ * return new Response(bundle, { headers: { 'Content-Type': 'application/octet-stream' } });
+ * ```
+ */
+export class BundleBuilder {
+  private documents = new Map<string, BundledDocument>();
+  private queries = new Map<string, api.BundleElement['namedQuery']>();
+  private latestReadTime = new Timestamp(0, 0);
+
+  constructor(
+    readonly firestore: Firestore,
+    readonly bundleId: string
+  ) {}
+
+  /**
+   * Add a document to the bundle.
+   */
+  add(document: DocumentSnapshot<any>): this;
+  /**
+   * Add a query's results to the bundle, under a name the client can load it by with `namedQuery()`.
+   */
+  add(queryName: string, querySnapshot: QuerySnapshot<any>): this;
+  add(documentOrName: DocumentSnapshot<any> | string, querySnapshot?: QuerySnapshot<any>): this {
+    if (documentOrName instanceof DocumentSnapshot) {
+      const docReadTime = documentOrName[readTimeSymbol];
+      if (!docReadTime) throw new Error('Only documents that were read can be added to a bundle.');
+      this.addDocument(documentOrName, Timestamp.fromISOString(docReadTime));
+      return this;
+    }
+    if (!querySnapshot) throw new Error('A query snapshot is required to add a named query to a bundle.');
+    if (this.queries.has(documentOrName)) {
+      throw new Error(`Query name conflict: ${documentOrName} has already been added.`);
+    }
+    const readTime = Timestamp.fromDate(querySnapshot.readTime);
+    this.queries.set(documentOrName, {
+      name: documentOrName,
+      bundledQuery: querySnapshot.query[bundledQuerySymbol](),
+      readTime: encodeTimestamp(readTime),
+    });
+    for (const doc of querySnapshot.docs) {
+      const docReadTime = doc[readTimeSymbol];
+      this.addDocument(doc, docReadTime ? Timestamp.fromISOString(docReadTime) : readTime, documentOrName);
+    }
+    this.updateReadTime(readTime);
+    return this;
+  }
+
+  /**
+   * Serialize the bundle, ready to be returned in a response or cached.
+   */
+  build(): Uint8Array {
+    const encoder = new TextEncoder();
+    const elements: Uint8Array[] = [];
+    const addElement = (element: api.BundleElement) => {
+      const json = encoder.encode(JSON.stringify(element));
+      elements.push(encoder.encode(String(json.length)), json);
+    };
+
+    for (const namedQuery of this.queries.values()) addElement({ namedQuery });
+    for (const { doc, exists, readTime, queries } of this.documents.values()) {
+      addElement({
+        documentMetadata: { name: doc.name, readTime: encodeTimestamp(readTime), exists, queries: [...queries] },
+      });
+      if (exists) addElement({ document: doc });
+    }
+
+    const totalBytes = elements.reduce((total, element) => total + element.length, 0);
+    const metadata = encoder.encode(
+      JSON.stringify({
+        metadata: {
+          id: this.bundleId,
+          createTime: encodeTimestamp(this.latestReadTime),
+          version: bundleVersion,
+          totalDocuments: this.documents.size,
+          totalBytes,
+        },
+      })
+    );
+    elements.unshift(encoder.encode(String(metadata.length)), metadata);
+
+    const bundle = new Uint8Array(totalBytes + elements[0]!.length + elements[1]!.length);
+    let offset = 0;
+    for (const element of elements) {
+      bundle.set(element, offset);
+      offset += element.length;
+    }
+    return bundle;
+  }
+
+  private addDocument(snapshot: DocumentSnapshot<any>, readTime: Timestamp, queryName?: string) {
+    const doc = snapshot[docSymbol];
+    const existing = this.documents.get(doc.name);
+    const queries = existing?.queries ?? new Set<string>();
+    if (queryName) queries.add(queryName);
+    // Keep the most recently read version of the document
+    if (!existing || existing.readTime.valueOf() < readTime.valueOf()) {
+      this.documents.set(doc.name, { doc, exists: snapshot.exists, readTime, queries });
+    }
+    this.updateReadTime(readTime);
+  }
+
+  private updateReadTime(readTime: Timestamp) {
+    if (readTime.valueOf() > this.latestReadTime.valueOf()) this.latestReadTime = readTime;
+  }
+}
+
+function encodeTimestamp(timestamp: Timestamp): api.BundleTimestamp {
+  return { seconds: timestamp.seconds, nanos: timestamp.nanoseconds };
+}
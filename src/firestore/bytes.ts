@@ -0,0 +1,52 @@
+/**
+ * Binary data, stored in Firestore as a `bytesValue`.
+ */
+export class Bytes {
+  static fromBase64String(base64: string): Bytes {
+    return new Bytes(base64ToBytes(base64));
+  }
+
+  static fromUint8Array(array: Uint8Array): Bytes {
+    return new Bytes(new Uint8Array(array));
+  }
+
+  private constructor(private readonly bytes: Uint8Array) {}
+
+  toBase64(): string {
+    return bytesToBase64(this.bytes);
+  }
+
+  toUint8Array(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  isEqual(other: Bytes): boolean {
+    const bytes = other.bytes;
+    return bytes.length === this.bytes.length && bytes.every((byte, i) => byte === this.bytes[i]);
+  }
+}
+
+/**
+ * Encode a Uint8Array to base64 without corrupting binary data.
+ * Chunked to avoid stack overflow on large arrays (String.fromCharCode has argument limits).
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode a base64 string back to a Uint8Array of raw bytes.
+ */
+function base64ToBytes(b64: string): Uint8Array {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
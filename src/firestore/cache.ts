@@ -0,0 +1,320 @@
+import type { api } from './types';
+
+// Seconds entries stay fresh for when no ttl is set
+const defaultTTL = 60;
+// KV doesn't accept shorter expirations or longer keys
+const minKVExpiration = 60;
+const maxKVKeyLength = 512;
+// Keys whose tags are remembered for invalidation when maxTrackedKeys isn't set
+const defaultMaxTrackedKeys = 10000;
+
+export interface CacheEntry {
+  value: unknown;
+  /** When the value was read from Firestore, in milliseconds since the epoch. */
+  time: number;
+}
+
+/**
+ * Where cached reads are kept. `ttl` is how long in seconds the store needs to keep an entry for, it may drop it
+ * sooner.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  put(key: string, entry: CacheEntry, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CacheSettings {
+  /** Seconds a cached read is used for before it is read again. Defaults to 60, 0 turns caching off. */
+  ttl?: number;
+  /**
+   * Seconds after `ttl` that a cached read is still returned while it is read again in the background. Defaults to 0.
+   */
+  staleWhileRevalidate?: number;
+}
+
+export interface CacheOptions extends CacheSettings {
+  store: CacheStore;
+  /** Settings for documents in, and queries on, collections with these ids. */
+  collections?: Record<string, CacheSettings>;
+  /**
+   * Keeps the Worker running until a background read finishes, usually `ctx.waitUntil` bound to the request's
+   * execution context.
+   */
+  waitUntil?: (promise: Promise<unknown>) => void;
+  /**
+   * How many cached reads this isolate remembers, to delete them when a write may change them. Defaults to 10000. The
+   * least recently used beyond it are deleted from the store, since writes could no longer invalidate them.
+   */
+  maxTrackedKeys?: number;
+}
+
+interface CacheRequest {
+  key: string;
+  collectionId: string;
+  // What invalidates the entry: document names and collection ids
+  tags: string[];
+}
+
+/**
+ * A read-through cache for document reads and queries, set up with `Firestore.useCache()`. Writes committed in this
+ * isolate delete the entries for the documents they touch, and for queries on their collections.
+ */
+export class FirestoreCache {
+  // The keys this isolate has used, by tag
+  private keys = new Map<string, Set<string>>();
+  // The tags of those keys, least recently used first
+  private tracked = new Map<string, string[]>();
+  private revalidating = new Set<string>();
+  // Incremented on every invalidation, so a read that started before a write doesn't cache what it read
+  private version = 0;
+
+  constructor(private readonly options: CacheOptions) {}
+
+  /**
+   * Read documents through the cache. `load` reads the documents at `indexes` that weren't cached.
+   */
+  readDocuments(
+    names: string[],
+    fieldPaths: string[] | undefined,
+    load: (indexes: number[]) => Promise<(api.BatchGetResponse | undefined)[]>
+  ): Promise<(api.BatchGetResponse | undefined)[]> {
+    const mask = fieldPaths ? `?mask=${[...fieldPaths].sort().join(',')}` : '';
+    const requests = names.map(name => ({ key: name + mask, collectionId: collectionIdOf(name), tags: [name] }));
+    return this.read(requests, load);
+  }
+
+  /**
+   * Run a query through the cache.
+   */
+  async readQuery(
+    parent: string,
+    query: api.StructuredQuery,
+    load: () => Promise<api.RunQueryResponse[]>
+  ): Promise<api.RunQueryResponse[]> {
+    const collectionId = query.from?.[0]?.collectionId ?? '';
+    const key = `${parent}:runQuery?${JSON.stringify(query)}`;
+    const [response] = await this.read([{ key, collectionId, tags: [collectionTag(collectionId)] }], async () => [
+      await load(),
+    ]);
+    return response!;
+  }
+
+  /**
+   * Delete the cached reads that `writes` may have changed.
+   */
+  async invalidate(writes: api.Write[]): Promise<void> {
+    this.version++;
+    const keys = new Set<string>();
+    for (const write of writes) {
+      const name = write.update?.name ?? write.delete ?? write.transform?.document;
+      if (!name) continue;
+      for (const tag of [name, collectionTag(collectionIdOf(name))]) {
+        this.keys.get(tag)?.forEach(key => keys.add(key));
+      }
+    }
+    keys.forEach(key => this.untrack(key));
+    await this.deleteKeys(keys);
+  }
+
+  private async read<T>(requests: CacheRequest[], load: (indexes: number[]) => Promise<T[]>): Promise<T[]> {
+    const now = Date.now();
+    const results: T[] = new Array(requests.length);
+    const missing: number[] = [];
+    const stale: number[] = [];
+    await Promise.all(
+      requests.map(async (request, i) => {
+        const { ttl, staleWhileRevalidate } = this.settings(request.collectionId);
+        // A cache that fails is treated as empty
+        const entry = ttl > 0 ? await this.options.store.get(request.key).catch(() => undefined) : undefined;
+        const age = entry ? (now - entry.time) / 1000 : Infinity;
+        if (entry && age < ttl + staleWhileRevalidate) {
+          results[i] = entry.value as T;
+          this.track(request);
+          if (age >= ttl && !this.revalidating.has(request.key)) stale.push(i);
+        } else {
+          missing.push(i);
+        }
+      })
+    );
+
+    if (stale.length) {
+      stale.forEach(i => this.revalidating.add(requests[i]!.key));
+      const revalidate = this.refresh(requests, stale, load)
+        .catch(() => {})
+        .finally(() => stale.forEach(i => this.revalidating.delete(requests[i]!.key)));
+      this.options.waitUntil?.(revalidate);
+    }
+    if (missing.length) {
+      const values = await this.refresh(requests, missing, load);
+      missing.forEach((index, i) => (results[index] = values[i]!));
+    }
+    return results;
+  }
+
+  private async refresh<T>(
+    requests: CacheRequest[],
+    indexes: number[],
+    load: (indexes: number[]) => Promise<T[]>
+  ): Promise<T[]> {
+    const version = this.version;
+    const values = await load(indexes);
+    if (version !== this.version) return values;
+    const time = Date.now();
+    await Promise.all(
+      indexes.map((index, i) => {
+        const request = requests[index]!;
+        const { ttl, staleWhileRevalidate } = this.settings(request.collectionId);
+        if (ttl <= 0) return;
+        this.track(request);
+        const entry: CacheEntry = { value: values[i], time };
+        return this.options.store.put(request.key, entry, ttl + staleWhileRevalidate).catch(() => {});
+      })
+    );
+    return values;
+  }
+
+  private track(request: CacheRequest) {
+    // Move it to the end as the most recently used
+    this.tracked.delete(request.key);
+    this.tracked.set(request.key, request.tags);
+    for (const tag of request.tags) {
+      let keys = this.keys.get(tag);
+      if (!keys) this.keys.set(tag, (keys = new Set()));
+      keys.add(request.key);
+    }
+    const evicted: string[] = [];
+    const max = this.options.maxTrackedKeys ?? defaultMaxTrackedKeys;
+    for (const key of this.tracked.keys()) {
+      if (this.tracked.size - evicted.length <= max) break;
+      evicted.push(key);
+    }
+    if (!evicted.length) return;
+    evicted.forEach(key => this.untrack(key));
+    const deleted = this.deleteKeys(evicted);
+    this.options.waitUntil?.(deleted);
+  }
+
+  private untrack(key: string) {
+    for (const tag of this.tracked.get(key) ?? []) {
+      const keys = this.keys.get(tag);
+      keys?.delete(key);
+      if (!keys?.size) this.keys.delete(tag);
+    }
+    this.tracked.delete(key);
+  }
+
+  private async deleteKeys(keys: Iterable<string>): Promise<void> {
+    await Promise.all([...keys].map(key => this.options.store.delete(key).catch(() => {})));
+  }
+
+  private settings(collectionId: string): Required<CacheSettings> {
+    const collection = this.options.collections?.[collectionId];
+    return {
+      ttl: collection?.ttl ?? this.options.ttl ?? defaultTTL,
+      staleWhileRevalidate: collection?.staleWhileRevalidate ?? this.options.staleWhileRevalidate ?? 0,
+    };
+  }
+}
+
+/**
+ * Keeps cached reads in the isolate's memory, dropping the least recently used beyond `maxEntries`. Each isolate has
+ * its own cache.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { entry: CacheEntry; expires: number }>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const item = this.entries.get(key);
+    if (!item) return undefined;
+    this.entries.delete(key);
+    if (item.expires <= Date.now()) return undefined;
+    // Move it to the end as the most recently used
+    this.entries.set(key, item);
+    return item.entry;
+  }
+
+  async put(key: string, entry: CacheEntry, ttl: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { entry, expires: Date.now() + ttl * 1000 });
+    if (this.entries.size > this.maxEntries) this.entries.delete(this.entries.keys().next().value!);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Keeps cached reads in Workers KV, shared by every location. KV is eventually consistent, so invalidations can take a
+ * while to reach other locations.
+ */
+export class KVCacheStore implements CacheStore {
+  constructor(
+    private readonly namespace: KVNamespace,
+    private readonly prefix = 'firestore:'
+  ) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return (await this.namespace.get<CacheEntry>(await this.kvKey(key), 'json')) ?? undefined;
+  }
+
+  async put(key: string, entry: CacheEntry, ttl: number): Promise<void> {
+    const expirationTtl = Math.max(Math.ceil(ttl), minKVExpiration);
+    await this.namespace.put(await this.kvKey(key), JSON.stringify(entry), { expirationTtl });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.namespace.delete(await this.kvKey(key));
+  }
+
+  private async kvKey(key: string): Promise<string> {
+    key = this.prefix + key;
+    // Long keys, like those for queries, are hashed
+    return new TextEncoder().encode(key).length <= maxKVKeyLength ? key : this.prefix + (await sha256(key));
+  }
+}
+
+/**
+ * Keeps cached reads in the Workers Cache API, e.g. `caches.default`. Entries are only shared within a location.
+ */
+export class CacheAPIStore implements CacheStore {
+  constructor(
+    private readonly cache: Cache,
+    private readonly origin = 'https://workers-firebase.cache'
+  ) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const response = await this.cache.match(await this.url(key));
+    return response ? response.json<CacheEntry>() : undefined;
+  }
+
+  async put(key: string, entry: CacheEntry, ttl: number): Promise<void> {
+    const headers = { 'Content-Type': 'application/json', 'Cache-Control': `max-age=${Math.ceil(ttl)}` };
+    await this.cache.put(await this.url(key), new Response(JSON.stringify(entry), { headers }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.cache.delete(await this.url(key));
+  }
+
+  private async url(key: string): Promise<string> {
+    return `${this.origin}/${await sha256(key)}`;
+  }
+}
+
+function collectionIdOf(name: string): string {
+  const segments = name.split('/');
+  return segments[segments.length - 2] ?? '';
+}
+
+function collectionTag(collectionId: string): string {
+  return `collection:${collectionId}`;
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
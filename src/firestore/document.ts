@@ -1,11 +1,12 @@
 import { DocumentReference } from './reference';
 import { decode, decodeValue } from './serializer';
 import { docSymbol, readTimeSymbol } from './symbols';
+import { Timestamp } from './timestamp';
 import { api, DocumentData } from './types';
 
 export class DocumentSnapshot<T = DocumentData> {
-  private [docSymbol]: api.Document;
-  private [readTimeSymbol]: string | undefined;
+  readonly [docSymbol]: api.Document;
+  readonly [readTimeSymbol]: string | undefined;
 
   constructor(
     readonly ref: DocumentReference<T>,
@@ -26,6 +27,14 @@ export class DocumentSnapshot<T = DocumentData> {
     return t ? new Date(t) : undefined;
   }
 
+  /**
+   * The `updateTime` to the microsecond, which a `Date` can't hold. Pass it as a `lastUpdateTime` precondition.
+   */
+  get updateTimestamp(): Timestamp | undefined {
+    const t = this[docSymbol].updateTime;
+    return t ? Timestamp.fromISOString(t) : undefined;
+  }
+
   get readTime(): Date | undefined {
     const t = this[readTimeSymbol];
     return t ? new Date(t) : undefined;
@@ -37,7 +46,14 @@ export class DocumentSnapshot<T = DocumentData> {
 
   data(): T | null {
     const fields = this[docSymbol]?.fields;
-    return fields ? decode<T>(this.ref.firestore, fields) : null;
+    if (!fields) return null;
+    const { converter } = this.ref;
+    if (converter) {
+      return converter.fromFirestore(
+        new DocumentSnapshot(this.ref.withConverter(null), this[docSymbol], this[readTimeSymbol])
+      );
+    }
+    return decode<T>(this.ref.firestore, fields);
   }
 
   get(field: string): any {
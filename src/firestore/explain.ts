@@ -0,0 +1,53 @@
+import type { api } from './types';
+
+export interface ExplainOptions {
+  /**
+   * Run the query and return its results and execution stats as well as the plan. Defaults to `false`, which only
+   * plans the query.
+   */
+  analyze?: boolean;
+}
+
+export interface PlanSummary {
+  /** The indexes the query uses, e.g. `{ query_scope: 'Collection', properties: '(status ASC, __name__ ASC)' }`. */
+  indexesUsed: Record<string, unknown>[];
+}
+
+export interface ExecutionStats {
+  resultsReturned: number;
+  /** How long the query took to execute on the server, in milliseconds. */
+  executionDuration: number;
+  readOperations: number;
+  debugStats: Record<string, unknown>;
+}
+
+export interface ExplainMetrics {
+  planSummary: PlanSummary;
+  /** Only available when the query was run with `analyze`. */
+  executionStats: ExecutionStats | null;
+}
+
+/**
+ * The result of explaining a query: how it was planned and, when run with `analyze`, its results.
+ */
+export class ExplainResults<T> {
+  constructor(
+    readonly metrics: ExplainMetrics,
+    readonly snapshot: T | null
+  ) {}
+}
+
+export function decodeExplainMetrics(metrics?: api.ExplainMetrics): ExplainMetrics {
+  const stats = metrics?.executionStats;
+  return {
+    planSummary: { indexesUsed: metrics?.planSummary?.indexesUsed || [] },
+    executionStats: stats
+      ? {
+          resultsReturned: Number(stats.resultsReturned || 0),
+          executionDuration: parseFloat(stats.executionDuration || '0') * 1000,
+          readOperations: Number(stats.readOperations || 0),
+          debugStats: stats.debugStats || {},
+        }
+      : null,
+  };
+}
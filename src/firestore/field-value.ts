@@ -1,5 +1,6 @@
 import { encodeValue } from './serializer';
 import { api } from './types';
+import { VectorValue } from './vector-value';
 
 export class FieldValue {
   /**
@@ -73,13 +74,37 @@ export class FieldValue {
     return new FieldValue('removeAllFromArray', elements);
   }
 
+  /**
+   * Returns a sentinel used with update() or set() with merge to remove a
+   * field from the document. It can't be used with create() or a set()
+   * without merge.
+   *
+   * @return The FieldValue sentinel for use in a call to update() or set()
+   * with merge.
+   */
+  static delete(): FieldValue {
+    return new FieldValue('delete', undefined);
+  }
+
+  /**
+   * Creates a vector embedding to store in a field, for use with `Query.findNearest()`.
+   *
+   * @param values The components of the vector.
+   * @return The VectorValue for use in a call to set(), create() or update().
+   */
+  static vector(values: number[] = []): VectorValue {
+    return new VectorValue(values);
+  }
+
   constructor(
     readonly transform: string,
     readonly value: any
   ) {}
 
   encode(fieldPath: string): api.FieldTransform {
-    const value = fieldPath === 'setToServerValue' ? this.value : encodeValue(this.value);
+    let value = this.transform === 'setToServerValue' ? this.value : encodeValue(this.value);
+    // Array transforms take the elements as an ArrayValue, not a Value
+    if (this.transform === 'appendMissingElements' || this.transform === 'removeAllFromArray') value = value.arrayValue;
     return { fieldPath, [this.transform]: value };
   }
 }
@@ -105,9 +130,13 @@ export class UpdateCollector {
   paths: string[] = [];
   mask: api.DocumentMask = { fieldPaths: [] };
   transforms: api.FieldTransform[] = [];
+  deletes: string[] = [];
 
   transform(transform: FieldValue) {
-    this.transforms.push(transform.encode(joinFieldPath(this.paths)));
+    const path = joinFieldPath(this.paths);
+    // A deleted field goes in the mask without a value, which removes it
+    if (transform.transform === 'delete') this.deletes.push(path);
+    else this.transforms.push(transform.encode(path));
   }
 
   enterField(field: string) {
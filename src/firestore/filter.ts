@@ -0,0 +1,51 @@
+import type { WhereFilterOp } from './types';
+
+/**
+ * A filter for use with `Query.where()`. Filters built with `Filter.or()` and `Filter.and()` can be nested to express
+ * conditions a chain of `where()` calls can't.
+ *
+ * ```
+ * query.where(Filter.or(Filter.where('status', '==', 'draft'), Filter.where('owner', '==', uid)));
+ * ```
+ */
+export abstract class Filter {
+  /**
+   * A filter on a single field, the same as `Query.where(fieldPath, opStr, value)`.
+   */
+  static where(fieldPath: string, opStr: WhereFilterOp, value: unknown): Filter {
+    return new PropertyFilter(fieldPath, opStr, value);
+  }
+
+  /**
+   * A filter that matches documents matching any of `filters`.
+   */
+  static or(...filters: Filter[]): Filter {
+    return new CompositeFilter('OR', filters);
+  }
+
+  /**
+   * A filter that matches documents matching all of `filters`.
+   */
+  static and(...filters: Filter[]): Filter {
+    return new CompositeFilter('AND', filters);
+  }
+}
+
+export class PropertyFilter extends Filter {
+  constructor(
+    readonly fieldPath: string,
+    readonly opStr: WhereFilterOp,
+    readonly value: unknown
+  ) {
+    super();
+  }
+}
+
+export class CompositeFilter extends Filter {
+  constructor(
+    readonly operator: 'AND' | 'OR',
+    readonly filters: Filter[]
+  ) {
+    super();
+  }
+}
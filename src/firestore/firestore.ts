@@ -1,22 +1,194 @@
 import { createId } from 'crypto-id';
+import { Auth } from '../auth/auth';
+import type { Tokens } from '../auth/types';
 import { FirebaseService } from '../service';
 import type { HTTPMethod, ServiceAccountUnderscored, Settings } from '../types';
+import { StatusError } from '../status-error';
+import { getUserTokenGetter } from '../tokens';
+import { backoff } from './backoff';
+import { BulkWriter, type BulkWriterOptions } from './bulk-writer';
+import { BundleBuilder } from './bundle';
+import { FirestoreCache, type CacheOptions } from './cache';
 import { DocumentSnapshot } from './document';
-import { CollectionReference, DocumentReference } from './reference';
-import { transactionSymbol, writesSymbol } from './symbols';
-import type { ConsistencyOptions, api } from './types';
+import type { MemoryBackend } from './memory';
+import { recursiveDelete, type RecursiveDeleteOptions } from './recursive-delete';
+import { CollectionReference, DocumentReference, Query } from './reference';
+import {
+  assertWritableSymbol,
+  beginSymbol,
+  cacheSymbol,
+  commitSymbol,
+  readCacheSymbol,
+  readOptionsSymbol,
+  readTimeSymbol,
+  rollbackSymbol,
+} from './symbols';
+import { Timestamp } from './timestamp';
+import { Transaction } from './transaction';
+import type {
+  ConsistencyOptions,
+  DocumentData,
+  ReadTransactionOptions,
+  TransactionOptions,
+  WriteBatchOptions,
+  api,
+} from './types';
 import { WriteBatch } from './write-batch';
 
 const scope = 'https://www.googleapis.com/auth/datastore';
+const defaultMaxAttempts = 5;
+// Large batchGet calls are split into requests of this many documents, sent in parallel.
+const maxBatchGetSize = 100;
+const ONE_HOUR = 60 * 60 * 1000;
+const SEVEN_DAYS = 7 * 24 * ONE_HOUR;
 
 export class Firestore extends FirebaseService {
   basePath: string;
-  [transactionSymbol]?: string;
-  [writesSymbol]?: api.Write[];
+  /**
+   * Read integers as `bigint` instead of `number`, so values beyond `Number.MAX_SAFE_INTEGER` aren't corrupted.
+   * `bigint` values are always written as integers.
+   */
+  useBigInt = false;
+  private [readTimeSymbol]?: Timestamp;
+  // Set with useCache() on any of the instances for the project's databases, and kept on the first one
+  private cache?: FirestoreCache;
+  private root: Firestore = this;
+  // Whether reads skip the cache, in views for a user
+  private uncached = false;
+  // The instances for each database of the project, shared by all of them. Each view has its own.
+  private databases = new Map<string, Firestore>();
+  // The instance a view was created from, and how it was changed, to make the same view of other databases
+  private viewOf?: { firestore: Firestore; change: (view: Firestore) => void };
 
   constructor(settings: Settings | ServiceAccountUnderscored, apiKey: string) {
     super('firestore', 'https://firestore.googleapis.com/v1', settings, apiKey);
-    this.basePath = `projects/${this.settings.projectId}/databases/${this.settings.databaseId || '(default)'}/documents`;
+    this.basePath = `projects/${this.settings.projectId}/databases/${this.databaseId}/documents`;
+    this.databases.set(this.databaseId, this);
+  }
+
+  get databaseId(): string {
+    return this.settings.databaseId || '(default)';
+  }
+
+  /**
+   * Get the `Firestore` instance for another database in the same project. Instances are created once and share
+   * credentials and their token cache. On a view from `atReadTime()` or `asUser()`, it is the same view of the other
+   * database.
+   *
+   * ```
+   * const eu = firestore.database('eu-tenants');
+   * ```
+   */
+  database(databaseId: string): Firestore {
+    let firestore = this.databases.get(databaseId);
+    if (!firestore) {
+      if (this.viewOf) {
+        firestore = this.viewOf.firestore.database(databaseId).view(this.viewOf.change);
+      } else {
+        firestore = new Firestore({ ...this.settings, databaseId, getToken: this.getToken }, this.apiKey);
+        firestore.apiUrl = this.apiUrl;
+        firestore.fetch = this.fetch;
+        firestore.root = this.root;
+        firestore.useBigInt = this.useBigInt;
+      }
+      firestore.databases = this.databases;
+      this.databases.set(databaseId, firestore);
+    }
+    return firestore;
+  }
+
+  /**
+   * Serve this instance from an in-memory backend instead of Firestore, for unit tests. Like `useEmulator()`, requests
+   * bypass auth. Instances for other databases created from this one afterwards share the backend.
+   *
+   * ```
+   * const firestore = new Firestore({ projectId: 'test', getToken: async () => '' }, 'key').useMemory(new MemoryBackend());
+   * ```
+   */
+  useMemory(backend: MemoryBackend): this {
+    this.fetch = (input, init) => backend.fetch(input, init);
+    this.getToken = async () => 'owner';
+    return this;
+  }
+
+  /**
+   * Cache document reads and query results in `options.store`, returning cached results until their `ttl` passes.
+   * The cache is used for every database in the project. Reads in transactions, at a past time and through `asUser()`
+   * views always go to Firestore. Writes committed through this instance or its views delete the cached results they
+   * may have changed, but writes from elsewhere are only seen once the results expire.
+   *
+   * ```
+   * firestore.useCache({ store: new MemoryCacheStore(), ttl: 30, collections: { config: { ttl: 300 } } });
+   * ```
+   */
+  useCache(options: CacheOptions): this {
+    this.root.cache = new FirestoreCache(options);
+    return this;
+  }
+
+  /**
+   * The cache that writes invalidate, set with `useCache()`.
+   */
+  get [cacheSymbol](): FirestoreCache | undefined {
+    return this.root.cache;
+  }
+
+  /**
+   * The cache reads go through. Reads at a past time aren't cached, nor reads as a user, which must be checked against
+   * their security rules.
+   */
+  get [readCacheSymbol](): FirestoreCache | undefined {
+    return this.uncached || this[readTimeSymbol] ? undefined : this.root.cache;
+  }
+
+  /**
+   * The time every read is pinned to, in a read-only view from `atReadTime()`.
+   */
+  get readTime(): Timestamp | undefined {
+    return this[readTimeSymbol];
+  }
+
+  /**
+   * A read-only view of the database as it was at `readTime`. Every document read, query, aggregation and listing
+   * made through the view (or references created from it) reads at that same time, for consistent reads across many
+   * documents. Writes through the view throw.
+   *
+   * `readTime` may be up to an hour old, or up to 7 days old on a whole minute if point-in-time recovery is enabled
+   * for the database.
+   */
+  atReadTime(readTime: Date | Timestamp): Firestore {
+    const time = readTime instanceof Timestamp ? readTime : Timestamp.fromDate(readTime);
+    const age = Date.now() - time.toMillis();
+    if (age > SEVEN_DAYS) {
+      throw new Error('readTime must be within the past 7 days.');
+    }
+    if (age > ONE_HOUR && (time.nanoseconds || time.seconds % 60)) {
+      throw new Error('readTime older than one hour must be a whole minute.');
+    }
+    return this.view(view => (view[readTimeSymbol] = time));
+  }
+
+  /**
+   * A view of the database that authenticates as a signed-in user with their Firebase ID token instead of as the
+   * service account, so security rules apply to every request just as they do for the client SDKs. Given the user's
+   * refresh token too, the ID token is refreshed when it expires and `onRefresh` is called with the new tokens.
+   */
+  asUser(tokens: string | Tokens, onRefresh?: (tokens: Tokens) => void): Firestore {
+    const auth = new Auth(this.settings, this.apiKey);
+    const getToken = getUserTokenGetter(tokens, refreshToken => auth.refreshToken(refreshToken), onRefresh);
+    return this.view(view => {
+      view.getToken = getToken;
+      view.uncached = true;
+    });
+  }
+
+  // A view of this instance, with its own instances for other databases
+  private view(change: (view: Firestore) => void): Firestore {
+    const view: Firestore = Object.create(this);
+    view.viewOf = { firestore: this, change };
+    view.databases = new Map([[this.databaseId, view]]);
+    change(view);
+    return view;
   }
 
   collection(path: string): CollectionReference {
@@ -27,20 +199,101 @@ export class Firestore extends FirebaseService {
     return new DocumentReference(this, path);
   }
 
-  async runTransaction<T>(updateFunction: () => Promise<T>, options?: api.TransactionOptions): Promise<T> {
-    this[transactionSymbol] = (
-      (await this.request('POST', ':beginTransaction', { options })) as { transaction: string }
-    ).transaction;
-    this[writesSymbol] = [];
-    const result = await updateFunction();
-    await this.request('POST', ':commit', { writes: this[writesSymbol], transaction: this[transactionSymbol] });
-    this[transactionSymbol] = undefined;
-    this[writesSymbol] = undefined;
-    return result;
+  /**
+   * Query every collection or subcollection with the id `collectionId`, wherever it is in the database.
+   */
+  collectionGroup(collectionId: string): Query {
+    if (collectionId.includes('/')) {
+      throw new Error(`Invalid collectionId '${collectionId}'. Collection IDs must not contain '/'.`);
+    }
+    return new Query(new CollectionReference(this, collectionId), {
+      from: [{ collectionId, allDescendants: true }],
+      filters: [],
+      orderBy: [],
+    });
+  }
+
+  /**
+   * Run `updateFunction` within a transaction. Reads and writes go through the `Transaction` passed in, and the writes
+   * are committed atomically once it resolves. If it throws, the transaction is rolled back and the error rethrown.
+   * When the transaction is aborted because of contention, the whole function is retried with backoff, up to
+   * `maxAttempts` times, so it should not have side effects outside the transaction.
+   */
+  async runTransaction<T>(
+    updateFunction: (transaction: Transaction) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T> {
+    if (this[readTimeSymbol]) {
+      // Transactions in a read-only view are read-only too and read at the view's time
+      options = { ...options, readOnly: true, readTime: options?.readTime ?? this[readTimeSymbol] };
+    }
+    const maxAttempts = options?.maxAttempts ?? defaultMaxAttempts;
+    let retryTransaction: string | undefined;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      await backoff(attempt);
+      const transaction = new Transaction(this, options);
+      try {
+        await transaction[beginSymbol](retryTransaction);
+        const result = await updateFunction(transaction);
+        await transaction[commitSymbol]();
+        return result;
+      } catch (err) {
+        lastError = err;
+        await transaction[rollbackSymbol]();
+        if (!(err instanceof StatusError && err.status === 'ABORTED')) throw err;
+        retryTransaction = transaction.id;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Create a batch of writes. By default each write succeeds or fails on its own, pass `{ atomic: true }` to apply them
+   * all or none.
+   */
+  batch(options?: WriteBatchOptions): WriteBatch {
+    return new WriteBatch(this, options);
+  }
+
+  /**
+   * Create a `BundleBuilder` for packaging documents and query results into a bundle the web SDK can load.
+   */
+  bundle(bundleId: string): BundleBuilder {
+    return new BundleBuilder(this, bundleId);
+  }
+
+  /**
+   * Create a `BulkWriter` for writing large numbers of documents with throttling and automatic retries.
+   */
+  bulkWriter(options?: BulkWriterOptions): BulkWriter {
+    return new BulkWriter(this, options);
+  }
+
+  /**
+   * Delete a document or collection along with all of its nested subcollections and their documents. Resolves with
+   * the number of documents deleted.
+   */
+  recursiveDelete(
+    ref: DocumentReference<any> | CollectionReference<any>,
+    options?: RecursiveDeleteOptions
+  ): Promise<number> {
+    return recursiveDelete(this, ref, options);
+  }
+
+  /**
+   * The consistency options for reads, pinning them to the read time of a read-only view.
+   */
+  [readOptionsSymbol](): ReadTransactionOptions | undefined {
+    return this[readTimeSymbol] && { readTime: this[readTimeSymbol].toISOString() };
   }
 
-  batch(): WriteBatch {
-    return new WriteBatch(this);
+  /**
+   * Throws if this is a read-only view from `atReadTime()`.
+   */
+  [assertWritableSymbol]() {
+    if (this[readTimeSymbol]) throw new Error('Cannot write through a read-only view of the database.');
   }
 
   request<T>(method: HTTPMethod, path: string, search?: URLSearchParams, body?: object): Promise<T>;
@@ -56,33 +309,64 @@ export class Firestore extends FirebaseService {
     return super.request(method, path, searchOrBody as URLSearchParams, body, scope);
   }
 
+  stream<T>(method: HTTPMethod, path: string, body?: object): AsyncGenerator<T> {
+    if (path && path[0] !== ':' && path[0] !== '/') path = '/' + path;
+    return super.stream(method, this.basePath + path, body, scope);
+  }
+
   autoId(): string {
     return createId(20);
   }
 
-  async batchGet(
-    refs: DocumentReference[],
+  async batchGet<T = DocumentData>(
+    refs: DocumentReference<T>[],
     fields?: string[],
     consistency?: ConsistencyOptions
-  ): Promise<DocumentSnapshot[]> {
-    const mask = fields && { fieldPaths: fields };
-    const request: api.BatchGetRequest = {
-      documents: refs.map(ref => ref.qualifiedPath),
-      mask,
-      ...consistency,
-      transaction: this[transactionSymbol],
-    };
-    const response: api.BatchGetResponse[] = await this.request('POST', ':batchGet', request);
-    const docMap = new Map<string, api.BatchGetResponse>();
-    // return in the same order as requested
-    response.forEach(result => {
-      const key = result.missing || result.found?.name;
-      if (key) docMap.set(key, result);
-    });
-    return request.documents.map((name, i) => {
-      const result = docMap.get(name);
+  ): Promise<DocumentSnapshot<T>[]> {
+    const documents = refs.map(ref => ref.qualifiedPath);
+    // Reads in a transaction aren't cached
+    const cache = !consistency && this[readCacheSymbol];
+    const results = cache
+      ? await cache.readDocuments(documents, fields, indexes =>
+          this.getDocuments(
+            indexes.map(i => documents[i]!),
+            fields
+          )
+        )
+      : await this.getDocuments(documents, fields, consistency);
+    return results.map((result, i) => {
       const doc = result?.missing ? undefined : result?.found;
       return new DocumentSnapshot(refs[i]!, doc, result?.readTime);
     });
   }
+
+  /**
+   * Read documents with `:batchGet`, returning the results in the order requested.
+   */
+  private async getDocuments(
+    documents: string[],
+    fields?: string[],
+    consistency?: ConsistencyOptions
+  ): Promise<(api.BatchGetResponse | undefined)[]> {
+    const mask = fields && { fieldPaths: fields };
+    const chunks: string[][] = [];
+    for (let i = 0; i < documents.length; i += maxBatchGetSize) {
+      chunks.push(documents.slice(i, i + maxBatchGetSize));
+    }
+    const docMap = new Map<string, api.BatchGetResponse>();
+    await Promise.all(
+      chunks.map(async chunk => {
+        const request: api.BatchGetRequest = {
+          documents: chunk,
+          mask,
+          ...(consistency ?? this[readOptionsSymbol]()),
+        };
+        for await (const result of this.stream<api.BatchGetResponse>('POST', ':batchGet', request)) {
+          const key = result.missing || result.found?.name;
+          if (key) docMap.set(key, result);
+        }
+      })
+    );
+    return documents.map(name => docMap.get(name));
+  }
 }
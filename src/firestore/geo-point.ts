@@ -0,0 +1,22 @@
+/**
+ * A geographic location, stored in Firestore as a `geoPointValue`.
+ */
+export class GeoPoint {
+  constructor(
+    readonly latitude: number,
+    readonly longitude: number
+  ) {
+    if (!(latitude >= -90 && latitude <= 90)) throw new Error(`Latitude must be between -90 and 90: ${latitude}`);
+    if (!(longitude >= -180 && longitude <= 180)) {
+      throw new Error(`Longitude must be between -180 and 180: ${longitude}`);
+    }
+  }
+
+  isEqual(other: GeoPoint): boolean {
+    return other.latitude === this.latitude && other.longitude === this.longitude;
+  }
+
+  toJSON(): { latitude: number; longitude: number } {
+    return { latitude: this.latitude, longitude: this.longitude };
+  }
+}
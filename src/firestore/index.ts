@@ -1,3 +1,17 @@
+export * from './aggregate';
+export * from './bulk-writer';
+export * from './bundle';
+export * from './bytes';
+export * from './cache';
+export * from './explain';
+export * from './filter';
 export * from './firestore';
+export * from './geo-point';
+export * from './memory';
+export * from './recursive-delete';
 export * from './reference';
+export * from './timestamp';
+export * from './transaction';
 export * from './types';
+export * from './vector-value';
+export * from './write-result';
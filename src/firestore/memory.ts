@@ -0,0 +1,696 @@
+import { StatusCode, StatusError } from '../status-error';
+import { compareValues, documentComparator, getValue, isComparable, splitFieldPath } from './order';
+import { Timestamp } from './timestamp';
+import type { api } from './types';
+
+const DOCUMENT_ID = '__name__';
+const VECTOR_TYPE = '__vector__';
+const MIN_INTEGER = -(2n ** 63n);
+const MAX_INTEGER = 2n ** 63n - 1n;
+// The REST path of a request, e.g. `/v1/projects/p/databases/(default)/documents/users/alice:listCollectionIds`
+const REQUEST_PATH = /^\/(?:v1\/)?(projects\/[^/]+\/databases\/[^/]+\/documents)(.*)$/;
+const inequalityOperators = new Set<string>([
+  'LESS_THAN',
+  'LESS_THAN_OR_EQUAL',
+  'GREATER_THAN',
+  'GREATER_THAN_OR_EQUAL',
+  'NOT_EQUAL',
+  'NOT_IN',
+  'IS_NOT_NAN',
+  'IS_NOT_NULL',
+]);
+const httpStatuses: Partial<Record<StatusCode, number>> = {
+  [StatusCode.INVALID_ARGUMENT]: 400,
+  [StatusCode.FAILED_PRECONDITION]: 400,
+  [StatusCode.PERMISSION_DENIED]: 403,
+  [StatusCode.NOT_FOUND]: 404,
+  [StatusCode.ALREADY_EXISTS]: 409,
+  [StatusCode.ABORTED]: 409,
+  [StatusCode.UNIMPLEMENTED]: 501,
+};
+
+export interface MemoryBackendOptions {
+  /**
+   * The clock that commit and read times are taken from. Defaults to the system clock. Commit times always move
+   * forward, even if the clock doesn't.
+   */
+  now?: () => Date;
+}
+
+interface Version {
+  time: Timestamp;
+  doc?: api.Document;
+}
+
+interface MemoryTransaction {
+  readOnly: boolean;
+  readTime?: Timestamp;
+  // Checks that what the transaction read is unchanged, run when it commits
+  checks: (() => boolean)[];
+}
+
+interface Consistency {
+  time?: Timestamp;
+  readTime: string;
+  transaction?: MemoryTransaction;
+  newTransaction?: string;
+}
+
+/**
+ * An in-memory Firestore for unit tests, served through the same REST API as Firestore so the library's classes work
+ * with it unchanged. Queries, aggregations, field transforms, preconditions, transactions and reads at a past time
+ * all behave as they do in Firestore. Security rules are not evaluated and no indexes are needed.
+ *
+ * ```
+ * const firestore = new Firestore({ projectId: 'test', getToken: async () => '' }, 'key').useMemory(new MemoryBackend());
+ * ```
+ */
+export class MemoryBackend {
+  // Every version of each document by name, oldest first, with `doc` unset once it is deleted
+  private documents = new Map<string, Version[]>();
+  private transactions = new Map<string, MemoryTransaction>();
+  // The latest time a read or commit happened at
+  private lastTime = new Timestamp(0, 0);
+  private transactionCount = 0;
+
+  constructor(private readonly options: MemoryBackendOptions = {}) {}
+
+  /**
+   * Delete every document, e.g. between tests.
+   */
+  clear(): void {
+    this.documents.clear();
+    this.transactions.clear();
+  }
+
+  /**
+   * Handle a request to the Firestore REST API as `fetch()` would, responding as Firestore does.
+   */
+  async fetch(input: string | URL, init: RequestInit = {}): Promise<Response> {
+    const url = new URL(input);
+    try {
+      const match = REQUEST_PATH.exec(decodeURIComponent(url.pathname));
+      if (!match) throw error(StatusCode.NOT_FOUND, `Unknown path ${url.pathname}.`);
+      const [, basePath, rest] = match as unknown as [string, string, string];
+      const colon = rest.lastIndexOf(':');
+      const method = colon > rest.lastIndexOf('/') ? rest.slice(colon + 1) : undefined;
+      const name = basePath + (method ? rest.slice(0, colon) : rest);
+      const body = typeof init.body === 'string' ? JSON.parse(init.body) : {};
+
+      if (init.method === 'GET' && !method) return json(this.listDocuments(name, url.searchParams));
+      switch (method) {
+        case 'batchGet':
+          return json(this.batchGet(body));
+        case 'runQuery':
+          return json(this.runQuery(name, body));
+        case 'runAggregationQuery':
+          return json(this.runAggregationQuery(name, body));
+        case 'batchWrite':
+          return json(this.batchWrite(body));
+        case 'commit':
+          return json(this.commit(body));
+        case 'beginTransaction':
+          return json(this.beginTransaction(body));
+        case 'rollback':
+          return json(this.rollback(body));
+        case 'listCollectionIds':
+          return json(this.listCollectionIds(name, body));
+      }
+      throw error(StatusCode.UNIMPLEMENTED, `${init.method} ${url.pathname} is not supported in memory.`);
+    } catch (err) {
+      if (!(err instanceof StatusError)) throw err;
+      const { code, message, status } = err;
+      return json({ error: { code, message, status } }, httpStatuses[code as StatusCode] ?? 500);
+    }
+  }
+
+  private batchGet(request: api.BatchGetRequest): api.BatchGetResponse[] {
+    const { time, readTime, transaction, newTransaction } = this.consistency(request);
+    return request.documents.map((name, i) => {
+      const doc = this.get(name, time);
+      transaction?.checks.push(() => this.get(name)?.updateTime === doc?.updateTime);
+      const response: api.BatchGetResponse = doc
+        ? { found: mask(doc, request.mask?.fieldPaths), readTime }
+        : { missing: name, readTime };
+      if (i === 0 && newTransaction) response.transaction = newTransaction;
+      return response;
+    });
+  }
+
+  private runQuery(parent: string, request: api.RunQueryRequest): api.RunQueryResponse[] {
+    const { time, readTime, transaction, newTransaction } = this.consistency(request);
+    const query = request.structuredQuery;
+    if (request.explainOptions && !request.explainOptions.analyze) {
+      return [{ readTime, explainMetrics: explainMetrics() }];
+    }
+    const docs = this.query(parent, query, time);
+    transaction?.checks.push(() => sameDocuments(this.query(parent, query), docs));
+
+    const fieldPaths = query.select?.fields?.map(field => field.fieldPath!);
+    const response: api.RunQueryResponse[] = docs.map(doc => ({ document: mask(doc, fieldPaths), readTime }));
+    if (!response.length) response.push({ readTime });
+    if (newTransaction) response[0]!.transaction = newTransaction;
+    if (request.explainOptions) response[response.length - 1]!.explainMetrics = explainMetrics(docs.length);
+    return response;
+  }
+
+  private runAggregationQuery(
+    parent: string,
+    request: api.RunAggregationQueryRequest
+  ): api.RunAggregationQueryResponse[] {
+    const { time, readTime, transaction, newTransaction } = this.consistency(request);
+    const { structuredQuery, aggregations } = request.structuredAggregationQuery;
+    if (request.explainOptions && !request.explainOptions.analyze) {
+      return [{ readTime, explainMetrics: explainMetrics() }];
+    }
+    const docs = this.query(parent, structuredQuery, time);
+    transaction?.checks.push(() => sameDocuments(this.query(parent, structuredQuery), docs));
+
+    const aggregateFields: api.AggregationResult['aggregateFields'] = {};
+    for (const { alias, count, sum, avg } of aggregations) {
+      if (count) {
+        const upTo = count.upTo === undefined ? Infinity : Number(count.upTo);
+        aggregateFields[alias!] = { integerValue: String(Math.min(docs.length, upTo)) };
+        continue;
+      }
+      const fieldPath = (sum ?? avg)!.field.fieldPath!;
+      const values = docs.map(doc => getValue(doc, fieldPath)).filter(isNumber);
+      aggregateFields[alias!] = sum ? sumValues(values) : averageValues(values);
+    }
+    return [
+      {
+        result: { aggregateFields },
+        readTime,
+        transaction: newTransaction,
+        explainMetrics: request.explainOptions && explainMetrics(docs.length),
+      },
+    ];
+  }
+
+  private batchWrite(request: api.BatchWriteRequest): api.BatchWriteResponse {
+    const time = this.tick();
+    const writeResults: api.WriteResult[] = [];
+    const status: api.Status[] = [];
+    // Each write succeeds or fails on its own
+    for (const write of request.writes) {
+      const staged = new Map<string, api.Document | undefined>();
+      try {
+        writeResults.push(this.applyWrite(write, time, staged));
+        status.push({ code: StatusCode.OK, message: '' });
+        this.store(staged, time);
+      } catch (err) {
+        if (!(err instanceof StatusError)) throw err;
+        writeResults.push({});
+        status.push({ code: err.code, message: err.message });
+      }
+    }
+    return { writeResults, status };
+  }
+
+  private commit(request: api.CommitRequest): api.CommitResponse {
+    if (request.transaction) {
+      const transaction = this.transaction(request.transaction);
+      this.transactions.delete(request.transaction);
+      if (transaction.readOnly) throw error(StatusCode.INVALID_ARGUMENT, 'Cannot commit a read-only transaction.');
+      if (!transaction.checks.every(check => check())) {
+        throw error(StatusCode.ABORTED, 'Transaction aborted, documents it read were changed by another write.');
+      }
+    }
+    const time = this.tick();
+    const staged = new Map<string, api.Document | undefined>();
+    const writeResults = request.writes.map(write => this.applyWrite(write, time, staged));
+    this.store(staged, time);
+    return { writeResults, commitTime: time.toISOString() };
+  }
+
+  private beginTransaction(request: api.BeginTransactionRequest): api.BeginTransactionResponse {
+    const id = btoa(`transaction-${++this.transactionCount}`);
+    const readOnly = request.options?.readOnly;
+    this.transactions.set(id, {
+      readOnly: !!readOnly,
+      // Read-only transactions read a consistent snapshot as of when they began
+      readTime: readOnly && (readOnly.readTime ? Timestamp.fromISOString(readOnly.readTime) : this.now()),
+      checks: [],
+    });
+    return { transaction: id };
+  }
+
+  private rollback(request: api.RollbackRequest): object {
+    this.transaction(request.transaction);
+    this.transactions.delete(request.transaction);
+    return {};
+  }
+
+  private listCollectionIds(
+    name: string,
+    request: { pageSize?: number; pageToken?: string; readTime?: string }
+  ): api.ListCollectionIdsResponse {
+    const time = request.readTime ? Timestamp.fromISOString(request.readTime) : undefined;
+    const ids = new Set<string>();
+    for (const docName of this.documents.keys()) {
+      if (docName.startsWith(`${name}/`) && this.get(docName, time))
+        ids.add(docName.slice(name.length + 1).split('/')[0]!);
+    }
+    const { items, nextPageToken } = page([...ids].sort(), id => id, request.pageSize, request.pageToken);
+    return { collectionIds: items, nextPageToken };
+  }
+
+  private listDocuments(collection: string, params: URLSearchParams): api.ListDocumentsResponse {
+    const readTime = params.get('readTime');
+    const time = readTime ? Timestamp.fromISOString(readTime) : undefined;
+    const showMissing = params.get('showMissing') === 'true';
+    const fieldPaths = params.has('mask.fieldPaths') ? params.getAll('mask.fieldPaths') : undefined;
+    const docs = new Map<string, api.Document>();
+    for (const name of this.documents.keys()) {
+      if (!name.startsWith(`${collection}/`)) continue;
+      const [id, ...rest] = name.slice(collection.length + 1).split('/');
+      const docName = `${collection}/${id}`;
+      const doc = this.get(docName, time);
+      if (doc) docs.set(docName, mask(doc, fieldPaths));
+      // Missing documents have no fields but do have subcollections with documents in them
+      else if (showMissing && rest.length && this.get(name, time)) docs.set(docName, { name: docName });
+    }
+    const sorted = [...docs.values()].sort((a, b) =>
+      compareValues({ referenceValue: a.name }, { referenceValue: b.name })
+    );
+    const pageSize = params.has('pageSize') ? Number(params.get('pageSize')) : undefined;
+    const { items, nextPageToken } = page(sorted, doc => doc.name, pageSize, params.get('pageToken') ?? undefined);
+    return { documents: items, nextPageToken };
+  }
+
+  /**
+   * Apply a write on top of the documents staged so far in its commit, throwing if its precondition fails.
+   */
+  private applyWrite(
+    write: api.Write,
+    time: Timestamp,
+    staged: Map<string, api.Document | undefined>
+  ): api.WriteResult {
+    const name = write.update?.name ?? write.delete ?? write.transform!.document;
+    const existing = staged.has(name) ? staged.get(name) : this.get(name);
+    const { exists, updateTime } = write.currentDocument ?? {};
+    if (exists === false && existing) throw error(StatusCode.ALREADY_EXISTS, `Document already exists: ${name}`);
+    if (exists === true && !existing) throw error(StatusCode.NOT_FOUND, `No document to update: ${name}`);
+    if (updateTime && !(existing && sameTime(existing.updateTime!, updateTime))) {
+      throw error(StatusCode.FAILED_PRECONDITION, `The document was updated since ${updateTime}: ${name}`);
+    }
+    if (write.delete) {
+      staged.set(name, undefined);
+      return {};
+    }
+
+    let fields: api.MapValue;
+    if (write.update && !write.updateMask) {
+      fields = structuredClone(write.update.fields ?? {});
+    } else {
+      fields = structuredClone(existing?.fields ?? {});
+      for (const fieldPath of write.updateMask?.fieldPaths ?? []) {
+        const segments = splitFieldPath(fieldPath);
+        setField(fields, segments, getField(write.update!.fields ?? {}, segments));
+      }
+    }
+    const commitTime = time.toISOString();
+    const transforms = write.updateTransforms ?? write.transform?.fieldTransforms ?? [];
+    const transformResults = transforms.map(transform => applyTransform(fields, transform, commitTime));
+
+    // A write that doesn't change the document keeps its update time
+    const changed = !existing || canonicalJSON(existing.fields ?? {}) !== canonicalJSON(fields);
+    const doc: api.Document = {
+      name,
+      fields,
+      createTime: existing?.createTime ?? commitTime,
+      updateTime: changed ? commitTime : existing!.updateTime,
+    };
+    staged.set(name, doc);
+    return { updateTime: doc.updateTime, transformResults: transforms.length ? transformResults : undefined };
+  }
+
+  private store(staged: Map<string, api.Document | undefined>, time: Timestamp) {
+    for (const [name, doc] of staged) {
+      let versions = this.documents.get(name);
+      if (!versions) this.documents.set(name, (versions = []));
+      versions.push({ time, doc });
+    }
+  }
+
+  /**
+   * Get a document as it is now, or as it was at `time`.
+   */
+  private get(name: string, time?: Timestamp): api.Document | undefined {
+    const versions = this.documents.get(name) ?? [];
+    if (!time) return versions[versions.length - 1]?.doc;
+    for (let i = versions.length - 1; i >= 0; i--) {
+      if (versions[i]!.time.valueOf() <= time.valueOf()) return versions[i]!.doc;
+    }
+    return undefined;
+  }
+
+  private query(parent: string, query: api.StructuredQuery, time?: Timestamp): api.Document[] {
+    const { collectionId, allDescendants } = query.from?.[0] ?? {};
+    let docs: api.Document[] = [];
+    for (const name of this.documents.keys()) {
+      if (!name.startsWith(`${parent}/`)) continue;
+      const segments = name.slice(parent.length + 1).split('/');
+      if (!allDescendants && segments.length !== 2) continue;
+      if (collectionId && segments[segments.length - 2] !== collectionId) continue;
+      const doc = this.get(name, time);
+      if (doc && (!query.where || matches(doc, query.where))) docs.push(doc);
+    }
+    if (query.findNearest) return findNearest(docs, query.findNearest);
+
+    const orders = queryOrders(query);
+    // Documents without a value for every ordered field are left out
+    docs = docs.filter(doc => orders.every(({ field }) => getValue(doc, field!.fieldPath!)));
+    docs.sort(documentComparator(orders));
+    const { startAt, endAt } = query;
+    if (startAt) docs = docs.filter(doc => compareToCursor(doc, startAt, orders) >= (startAt.before ? 0 : 1));
+    if (endAt) docs = docs.filter(doc => compareToCursor(doc, endAt, orders) <= (endAt.before ? -1 : 0));
+    const offset = query.offset ?? 0;
+    return docs.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+  }
+
+  private consistency(request: {
+    transaction?: string;
+    newTransaction?: api.TransactionOptions;
+    readTime?: string;
+  }): Consistency {
+    let id = request.transaction;
+    let newTransaction: string | undefined;
+    if (request.newTransaction) {
+      id = newTransaction = this.beginTransaction({ options: request.newTransaction }).transaction;
+    }
+    const transaction = id ? this.transaction(id) : undefined;
+    const time = request.readTime ? Timestamp.fromISOString(request.readTime) : transaction?.readTime;
+    return {
+      time,
+      readTime: (time ?? this.now()).toISOString(),
+      // Only read-write transactions need to check their reads when they commit
+      transaction: transaction?.readOnly ? undefined : transaction,
+      newTransaction,
+    };
+  }
+
+  private transaction(id: string): MemoryTransaction {
+    const transaction = this.transactions.get(id);
+    if (!transaction) throw error(StatusCode.INVALID_ARGUMENT, `Transaction ${id} is not valid or has expired.`);
+    return transaction;
+  }
+
+  /**
+   * The time for a read, never before the last commit.
+   */
+  private now(): Timestamp {
+    const now = Timestamp.fromDate(this.options.now?.() ?? new Date());
+    if (now.valueOf() > this.lastTime.valueOf()) this.lastTime = now;
+    return this.lastTime;
+  }
+
+  /**
+   * The time for a new commit, after every commit and read before it, with the microsecond precision Firestore has.
+   */
+  private tick(): Timestamp {
+    let time = Timestamp.fromDate(this.options.now?.() ?? new Date());
+    if (time.valueOf() <= this.lastTime.valueOf()) {
+      const nanoseconds = Math.floor(this.lastTime.nanoseconds / 1000) * 1000 + 1000;
+      time = new Timestamp(this.lastTime.seconds + Math.floor(nanoseconds / 1e9), nanoseconds % 1e9);
+    }
+    return (this.lastTime = time);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function error(code: StatusCode, message: string): StatusError {
+  return new StatusError(code, message, StatusCode[code]);
+}
+
+function matches(doc: api.Document, filter: api.Filter): boolean {
+  const { compositeFilter, fieldFilter, unaryFilter } = filter;
+  if (compositeFilter) {
+    const filters = compositeFilter.filters ?? [];
+    return compositeFilter.op === 'OR'
+      ? filters.some(filter => matches(doc, filter))
+      : filters.every(filter => matches(doc, filter));
+  }
+  if (unaryFilter) {
+    const value = getValue(doc, unaryFilter.field!.fieldPath!);
+    if (!value) return false;
+    switch (unaryFilter.op) {
+      case 'IS_NULL':
+        return isNull(value);
+      case 'IS_NOT_NULL':
+        return !isNull(value);
+      case 'IS_NAN':
+        return isNaNValue(value);
+      case 'IS_NOT_NAN':
+        return !isNull(value) && !isNaNValue(value);
+    }
+    return true;
+  }
+  if (fieldFilter) {
+    const value = getValue(doc, fieldFilter.field!.fieldPath!);
+    const operand = fieldFilter.value!;
+    if (!value) return false;
+    const operands = operand.arrayValue?.values ?? [];
+    const elements = value.arrayValue?.values;
+    switch (fieldFilter.op) {
+      case 'EQUAL':
+        return valuesEqual(value, operand);
+      case 'NOT_EQUAL':
+        return !isNull(value) && !valuesEqual(value, operand);
+      case 'LESS_THAN':
+        return isComparable(value, operand) && compareValues(value, operand) < 0;
+      case 'LESS_THAN_OR_EQUAL':
+        return isComparable(value, operand) && compareValues(value, operand) <= 0;
+      case 'GREATER_THAN':
+        return isComparable(value, operand) && compareValues(value, operand) > 0;
+      case 'GREATER_THAN_OR_EQUAL':
+        return isComparable(value, operand) && compareValues(value, operand) >= 0;
+      case 'ARRAY_CONTAINS':
+        return !!elements?.some(element => valuesEqual(element, operand));
+      case 'ARRAY_CONTAINS_ANY':
+        return !!elements?.some(element => operands.some(operand => valuesEqual(element, operand)));
+      case 'IN':
+        return operands.some(operand => valuesEqual(value, operand));
+      case 'NOT_IN':
+        return !isNull(value) && !operands.some(operand => valuesEqual(value, operand));
+    }
+  }
+  return true;
+}
+
+/**
+ * The order of a query's results: its `orderBy`, then any fields with inequality filters, then the document name.
+ */
+function queryOrders(query: api.StructuredQuery): api.StructuredQueryOrder[] {
+  const orders = [...(query.orderBy ?? [])];
+  const ordered = new Set(orders.map(({ field }) => field?.fieldPath));
+  const direction = orders[orders.length - 1]?.direction ?? 'ASCENDING';
+  const inequalities = new Set<string>();
+  const addInequalities = (filter?: api.Filter) => {
+    filter?.compositeFilter?.filters?.forEach(addInequalities);
+    const { field, op } = filter?.fieldFilter ?? filter?.unaryFilter ?? {};
+    if (field?.fieldPath && op && inequalityOperators.has(op)) inequalities.add(field.fieldPath);
+  };
+  addInequalities(query.where);
+  for (const fieldPath of [...inequalities].sort()) {
+    if (!ordered.has(fieldPath) && fieldPath !== DOCUMENT_ID) orders.push({ field: { fieldPath }, direction });
+  }
+  if (!ordered.has(DOCUMENT_ID)) orders.push({ field: { fieldPath: DOCUMENT_ID }, direction });
+  return orders;
+}
+
+function compareToCursor(doc: api.Document, cursor: api.Cursor, orders: api.StructuredQueryOrder[]): number {
+  for (let i = 0; i < cursor.values.length && i < orders.length; i++) {
+    const { field, direction } = orders[i]!;
+    const result = compareValues(getValue(doc, field!.fieldPath!)!, cursor.values[i]!);
+    if (result) return direction === 'DESCENDING' ? -result : result;
+  }
+  return 0;
+}
+
+function findNearest(docs: api.Document[], options: api.FindNearest): api.Document[] {
+  const { vectorField, queryVector, distanceMeasure, limit, distanceResultField, distanceThreshold } = options;
+  const query = vectorValues(queryVector)!;
+  const results: { doc: api.Document; distance: number }[] = [];
+  for (const doc of docs) {
+    const vector = vectorValues(getValue(doc, vectorField.fieldPath!));
+    if (!vector || vector.length !== query.length) continue;
+    const dot = vector.reduce((total, value, i) => total + value * query[i]!, 0);
+    const distance =
+      distanceMeasure === 'EUCLIDEAN'
+        ? Math.sqrt(vector.reduce((total, value, i) => total + (value - query[i]!) ** 2, 0))
+        : distanceMeasure === 'COSINE'
+          ? 1 - dot / (Math.hypot(...vector) * Math.hypot(...query))
+          : dot;
+    results.push({ doc, distance });
+  }
+  // Larger dot products are closer, unlike distances
+  const sign = distanceMeasure === 'DOT_PRODUCT' ? -1 : 1;
+  return results
+    .filter(({ distance }) => distanceThreshold === undefined || sign * distance <= sign * distanceThreshold)
+    .sort((a, b) => sign * (a.distance - b.distance))
+    .slice(0, limit)
+    .map(({ doc, distance }) => {
+      if (!distanceResultField) return doc;
+      const fields = structuredClone(doc.fields ?? {});
+      setField(fields, splitFieldPath(distanceResultField), { doubleValue: distance });
+      return { ...doc, fields };
+    });
+}
+
+function vectorValues(value?: api.Value): number[] | undefined {
+  const fields = value?.mapValue?.fields;
+  if (fields?.__type__?.stringValue !== VECTOR_TYPE) return undefined;
+  return (fields.value?.arrayValue?.values ?? []).map(value => Number(value.doubleValue ?? value.integerValue));
+}
+
+function applyTransform(fields: api.MapValue, transform: api.FieldTransform, commitTime: string): api.Value {
+  const segments = splitFieldPath(transform.fieldPath);
+  const current = getField(fields, segments);
+  const elements = current?.arrayValue?.values ?? [];
+  let value: api.Value;
+  if (transform.setToServerValue) {
+    value = { timestampValue: commitTime };
+  } else if (transform.increment) {
+    value = isNumber(current) ? addNumbers(current, transform.increment) : transform.increment;
+  } else if (transform.maximum) {
+    value = isNumber(current) && compareValues(current, transform.maximum) >= 0 ? current : transform.maximum;
+  } else if (transform.minimum) {
+    value = isNumber(current) && compareValues(current, transform.minimum) <= 0 ? current : transform.minimum;
+  } else if (transform.appendMissingElements) {
+    const values = [...elements];
+    for (const element of transform.appendMissingElements.values ?? []) {
+      if (!values.some(value => valuesEqual(value, element))) values.push(element);
+    }
+    value = { arrayValue: { values } };
+  } else {
+    const removed = transform.removeAllFromArray?.values ?? [];
+    value = { arrayValue: { values: elements.filter(value => !removed.some(element => valuesEqual(value, element))) } };
+  }
+  setField(fields, segments, value);
+  // Array transforms don't report the new array
+  return transform.appendMissingElements || transform.removeAllFromArray ? { nullValue: null } : value;
+}
+
+function addNumbers(a: api.Value, b: api.Value): api.Value {
+  if (a.integerValue !== undefined && b.integerValue !== undefined) {
+    // Integer increments saturate rather than overflow
+    const sum = BigInt(a.integerValue) + BigInt(b.integerValue);
+    return { integerValue: String(sum < MIN_INTEGER ? MIN_INTEGER : sum > MAX_INTEGER ? MAX_INTEGER : sum) };
+  }
+  return { doubleValue: Number(a.integerValue ?? a.doubleValue) + Number(b.integerValue ?? b.doubleValue) };
+}
+
+function sumValues(values: api.Value[]): api.Value {
+  if (values.every(value => value.integerValue !== undefined)) {
+    const sum = values.reduce((total, value) => total + BigInt(value.integerValue!), 0n);
+    if (sum >= MIN_INTEGER && sum <= MAX_INTEGER) return { integerValue: String(sum) };
+  }
+  return { doubleValue: values.reduce((total, value) => total + Number(value.integerValue ?? value.doubleValue), 0) };
+}
+
+function averageValues(values: api.Value[]): api.Value {
+  if (!values.length) return { nullValue: null };
+  const sum = values.reduce((total, value) => total + Number(value.integerValue ?? value.doubleValue), 0);
+  return { doubleValue: sum / values.length };
+}
+
+function getField(fields: api.MapValue, segments: string[]): api.Value | undefined {
+  let value: api.Value | undefined = { mapValue: { fields } };
+  for (const segment of segments) value = value?.mapValue?.fields?.[segment];
+  return value;
+}
+
+/**
+ * Set the field at `segments`, creating maps along the way, or delete it if `value` is undefined.
+ */
+function setField(fields: api.MapValue, segments: string[], value: api.Value | undefined) {
+  const last = segments[segments.length - 1]!;
+  for (const segment of segments.slice(0, -1)) {
+    const child = fields[segment];
+    if (!child?.mapValue) {
+      if (!value) return;
+      fields[segment] = { mapValue: { fields: {} } };
+    }
+    fields = fields[segment]!.mapValue!.fields ??= {};
+  }
+  if (value) fields[last] = value;
+  else delete fields[last];
+}
+
+function mask(doc: api.Document, fieldPaths?: string[]): api.Document {
+  if (!fieldPaths) return doc;
+  const fields: api.MapValue = {};
+  for (const fieldPath of fieldPaths) {
+    if (fieldPath === DOCUMENT_ID) continue;
+    const segments = splitFieldPath(fieldPath);
+    setField(fields, segments, getField(doc.fields ?? {}, segments));
+  }
+  return { ...doc, fields };
+}
+
+function page<T>(
+  items: T[],
+  key: (item: T) => string,
+  pageSize = items.length,
+  pageToken?: string
+): { items: T[]; nextPageToken?: string } {
+  // The token is the key of the last item returned
+  const start = pageToken ? items.findIndex(item => key(item) > pageToken) : 0;
+  const pageItems = start === -1 ? [] : items.slice(start, start + pageSize);
+  const hasMore = start !== -1 && start + pageSize < items.length;
+  return { items: pageItems, nextPageToken: hasMore ? key(pageItems[pageItems.length - 1]!) : undefined };
+}
+
+function explainMetrics(resultsReturned?: number): api.ExplainMetrics {
+  return {
+    planSummary: { indexesUsed: [] },
+    executionStats:
+      resultsReturned === undefined
+        ? undefined
+        : {
+            resultsReturned: String(resultsReturned),
+            executionDuration: '0s',
+            readOperations: String(resultsReturned),
+          },
+  };
+}
+
+function sameDocuments(a: api.Document[], b: api.Document[]): boolean {
+  return a.length === b.length && a.every((doc, i) => doc.name === b[i]!.name && doc.updateTime === b[i]!.updateTime);
+}
+
+function sameTime(a: string, b: string): boolean {
+  return Timestamp.fromISOString(a).isEqual(Timestamp.fromISOString(b));
+}
+
+function valuesEqual(a: api.Value, b: api.Value): boolean {
+  return isComparable(a, b) && compareValues(a, b) === 0;
+}
+
+function isNull(value: api.Value): boolean {
+  return 'nullValue' in value;
+}
+
+function isNumber(value?: api.Value): value is api.Value {
+  return !!value && ('integerValue' in value || 'doubleValue' in value);
+}
+
+function isNaNValue(value: api.Value): boolean {
+  return 'doubleValue' in value && isNaN(Number(value.doubleValue));
+}
+
+/**
+ * JSON with object keys sorted, for comparing documents.
+ */
+function canonicalJSON(value: unknown): string {
+  if (!value || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(',')}]`;
+  const entries = Object.keys(value)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJSON((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
@@ -0,0 +1,183 @@
+import { Bytes } from './bytes';
+import { Timestamp } from './timestamp';
+import type { api } from './types';
+
+const DOCUMENT_ID = '__name__';
+const TYPE_KEY = '__type__';
+const VECTOR_TYPE = '__vector__';
+const VECTOR_VALUE_KEY = 'value';
+
+// How Firestore orders values of different types
+enum TypeOrder {
+  null,
+  boolean,
+  number,
+  timestamp,
+  string,
+  bytes,
+  reference,
+  geoPoint,
+  array,
+  vector,
+  map,
+}
+
+/**
+ * Compare two values the way Firestore orders them in query results, for merging the results of several queries.
+ */
+export function compareValues(a: api.Value, b: api.Value): number {
+  const typeA = typeOrder(a);
+  const typeB = typeOrder(b);
+  if (typeA !== typeB) return typeA - typeB;
+
+  switch (typeA) {
+    case TypeOrder.null:
+      return 0;
+    case TypeOrder.boolean:
+      return Number(a.booleanValue) - Number(b.booleanValue);
+    case TypeOrder.number:
+      return compareNumbers(a, b);
+    case TypeOrder.timestamp:
+      return compare(
+        Timestamp.fromISOString(a.timestampValue!).valueOf(),
+        Timestamp.fromISOString(b.timestampValue!).valueOf()
+      );
+    case TypeOrder.string:
+      return compare(a.stringValue!, b.stringValue!);
+    case TypeOrder.bytes:
+      return compareArrays(
+        Array.from(Bytes.fromBase64String(a.bytesValue!).toUint8Array()),
+        Array.from(Bytes.fromBase64String(b.bytesValue!).toUint8Array()),
+        compare
+      );
+    case TypeOrder.reference:
+      return compareArrays(a.referenceValue!.split('/'), b.referenceValue!.split('/'), compare);
+    case TypeOrder.geoPoint:
+      return (
+        compare(a.geoPointValue!.latitude, b.geoPointValue!.latitude) ||
+        compare(a.geoPointValue!.longitude, b.geoPointValue!.longitude)
+      );
+    case TypeOrder.array:
+      return compareArrays(a.arrayValue?.values || [], b.arrayValue?.values || [], compareValues);
+    case TypeOrder.vector: {
+      // Vectors order by their length first
+      const valuesA = a.mapValue!.fields[VECTOR_VALUE_KEY]?.arrayValue?.values || [];
+      const valuesB = b.mapValue!.fields[VECTOR_VALUE_KEY]?.arrayValue?.values || [];
+      return compare(valuesA.length, valuesB.length) || compareArrays(valuesA, valuesB, compareValues);
+    }
+    default:
+      return compareMaps(a.mapValue?.fields || {}, b.mapValue?.fields || {});
+  }
+}
+
+/**
+ * Create a comparator for documents following the query's `orderBy`, with documents ordered by name after that as
+ * Firestore does.
+ */
+export function documentComparator(orders: api.StructuredQueryOrder[]): (a: api.Document, b: api.Document) => number {
+  const lastDirection = orders[orders.length - 1]?.direction;
+  if (!orders.some(order => order.field?.fieldPath === DOCUMENT_ID)) {
+    orders = [...orders, { field: { fieldPath: DOCUMENT_ID }, direction: lastDirection }];
+  }
+  return (a, b) => {
+    for (const { field, direction } of orders) {
+      const fieldPath = field?.fieldPath ?? DOCUMENT_ID;
+      const valueA = getValue(a, fieldPath);
+      const valueB = getValue(b, fieldPath);
+      // Documents missing the field aren't returned by the query, so they can go anywhere
+      const result = valueA && valueB ? compareValues(valueA, valueB) : 0;
+      if (result) return direction === 'DESCENDING' ? -result : result;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Whether two values are of the same type as far as ordering goes. Range filters only match values of the same type.
+ */
+export function isComparable(a: api.Value, b: api.Value): boolean {
+  return typeOrder(a) === typeOrder(b);
+}
+
+/**
+ * Get the value of a field in a document, or its name for `__name__`.
+ */
+export function getValue(doc: api.Document, fieldPath: string): api.Value | undefined {
+  if (fieldPath === DOCUMENT_ID) return { referenceValue: doc.name };
+  let value: api.Value | undefined = { mapValue: { fields: doc.fields || {} } };
+  for (const segment of splitFieldPath(fieldPath)) {
+    value = value?.mapValue?.fields?.[segment];
+  }
+  return value;
+}
+
+/**
+ * Split a field path into its segments, unescaping segments quoted with backticks.
+ */
+export function splitFieldPath(fieldPath: string): string[] {
+  const segments: string[] = [];
+  let segment = '';
+  let quoted = false;
+  for (let i = 0; i < fieldPath.length; i++) {
+    const char = fieldPath[i]!;
+    if (quoted && char === '\\') {
+      segment += fieldPath[++i] ?? '';
+    } else if (char === '`') {
+      quoted = !quoted;
+    } else if (char === '.' && !quoted) {
+      segments.push(segment);
+      segment = '';
+    } else {
+      segment += char;
+    }
+  }
+  segments.push(segment);
+  return segments;
+}
+
+function typeOrder(value: api.Value): TypeOrder {
+  if ('nullValue' in value) return TypeOrder.null;
+  if ('booleanValue' in value) return TypeOrder.boolean;
+  if ('integerValue' in value || 'doubleValue' in value) return TypeOrder.number;
+  if ('timestampValue' in value) return TypeOrder.timestamp;
+  if ('stringValue' in value) return TypeOrder.string;
+  if ('bytesValue' in value) return TypeOrder.bytes;
+  if ('referenceValue' in value) return TypeOrder.reference;
+  if ('geoPointValue' in value) return TypeOrder.geoPoint;
+  if ('arrayValue' in value) return TypeOrder.array;
+  if (value.mapValue?.fields?.[TYPE_KEY]?.stringValue === VECTOR_TYPE) return TypeOrder.vector;
+  return TypeOrder.map;
+}
+
+function compareNumbers(a: api.Value, b: api.Value): number {
+  if (a.integerValue !== undefined && b.integerValue !== undefined) {
+    return compare(BigInt(a.integerValue), BigInt(b.integerValue));
+  }
+  const numberA = Number(a.integerValue ?? a.doubleValue);
+  const numberB = Number(b.integerValue ?? b.doubleValue);
+  // NaN comes before every other number
+  if (isNaN(numberA) || isNaN(numberB)) return Number(!isNaN(numberA)) - Number(!isNaN(numberB));
+  return compare(numberA, numberB);
+}
+
+function compareMaps(a: api.MapValue, b: api.MapValue): number {
+  const keysA = Object.keys(a).sort();
+  const keysB = Object.keys(b).sort();
+  for (let i = 0; i < keysA.length && i < keysB.length; i++) {
+    const result = compare(keysA[i]!, keysB[i]!) || compareValues(a[keysA[i]!]!, b[keysB[i]!]!);
+    if (result) return result;
+  }
+  return compare(keysA.length, keysB.length);
+}
+
+function compareArrays<T>(a: T[], b: T[], compareItems: (a: T, b: T) => number): number {
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    const result = compareItems(a[i]!, b[i]!);
+    if (result) return result;
+  }
+  return compare(a.length, b.length);
+}
+
+function compare<T extends string | number | bigint>(a: T, b: T): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
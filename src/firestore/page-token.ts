@@ -0,0 +1,67 @@
+import { Bytes } from './bytes';
+import type { api } from './types';
+
+/**
+ * Where a page of query results ended, as stored in a page token.
+ */
+export interface PageCursor {
+  /** The collection queried. */
+  path: string;
+  /** The query's order, e.g. `['age DESCENDING', '__name__ DESCENDING']`, which `values` are for. */
+  orders: string[];
+  /** Whether the query is a `limitToLast()` query, which pages backwards. */
+  reverse: boolean;
+  /** A digest of the query's filters, from `digestFilters()`. */
+  filters: string;
+  values: api.Value[];
+}
+
+/**
+ * Encode a cursor into a URL-safe token signed with `secret`, so it can't be changed without it being noticed. The
+ * token is not encrypted, anyone can decode the field values in it.
+ */
+export async function encodePageToken(cursor: PageCursor, secret: string): Promise<string> {
+  const payload = toBase64URL(new TextEncoder().encode(JSON.stringify(cursor)));
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64URL(new Uint8Array(signature))}`;
+}
+
+/**
+ * Decode a token from `encodePageToken()`, throwing if it wasn't signed with `secret`.
+ */
+export async function decodePageToken(token: string, secret: string): Promise<PageCursor> {
+  const [payload, signature, ...rest] = token.split('.');
+  if (payload && signature && !rest.length) {
+    try {
+      const data = new TextEncoder().encode(payload);
+      if (await crypto.subtle.verify('HMAC', await importKey(secret), fromBase64URL(signature), data)) {
+        return JSON.parse(new TextDecoder().decode(fromBase64URL(payload)));
+      }
+    } catch (err) {
+      // Malformed tokens are invalid too
+    }
+  }
+  throw new Error('Invalid page token.');
+}
+
+/**
+ * A short digest of a query's filters, so a token isn't used with a query filtered differently. Inequality filters,
+ * including those in `Filter.and()` and `Filter.or()`, can decide what the query is ordered by.
+ */
+export async function digestFilters(filters: api.Filter[]): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(filters)));
+  return toBase64URL(new Uint8Array(digest, 0, 16));
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  const algorithm = { name: 'HMAC', hash: 'SHA-256' };
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), algorithm, false, ['sign', 'verify']);
+}
+
+function toBase64URL(bytes: Uint8Array): string {
+  return Bytes.fromUint8Array(bytes).toBase64().replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64URL(base64: string): Uint8Array {
+  return Bytes.fromBase64String(base64.replace(/-/g, '+').replace(/_/g, '/')).toUint8Array();
+}
@@ -0,0 +1,114 @@
+import { StatusCode, StatusError } from '../status-error';
+import { BulkWriter } from './bulk-writer';
+import { Firestore } from './firestore';
+import { CollectionReference, DocumentReference, FieldPath } from './reference';
+import { decodePath } from './serializer';
+import type { api } from './types';
+
+const pageSize = 1000;
+const nullChar = String.fromCharCode(0);
+// The lowest document id Firestore accepts in a reference
+const minId = '__id-9223372036854775808__';
+
+export interface RecursiveDeleteOptions {
+  /**
+   * The `BulkWriter` to delete with, e.g. to control throttling and retries. It is flushed but not closed. Defaults to
+   * a new `BulkWriter`.
+   */
+  bulkWriter?: BulkWriter;
+  /**
+   * Called with the running count of deleted documents after each deletion.
+   */
+  onProgress?: (deleted: number) => void;
+}
+
+/**
+ * Delete a document or collection along with every document nested beneath it, at any depth. Descendants are found
+ * with a kindless all-descendants query, paged by document name, and deleted in parallel through a `BulkWriter`.
+ * Resolves with the number of documents deleted, including `ref` itself when it's a document.
+ */
+export async function recursiveDelete(
+  firestore: Firestore,
+  ref: DocumentReference<any> | CollectionReference<any>,
+  options?: RecursiveDeleteOptions
+): Promise<number> {
+  const writer = options?.bulkWriter ?? new BulkWriter(firestore);
+  let deleted = 0;
+  const failures: StatusError[] = [];
+
+  const remove = (doc: DocumentReference) => {
+    writer.delete(doc).then(
+      () => {
+        deleted++;
+        options?.onProgress?.(deleted);
+      },
+      err => failures.push(err)
+    );
+  };
+
+  let startAfter: string | undefined;
+  do {
+    const names = await getDescendantNames(firestore, ref, startAfter);
+    names.forEach(name => remove(firestore.doc(decodePath(name))));
+    startAfter = names.length === pageSize ? names[names.length - 1] : undefined;
+    // Wait for each page to be deleted so a huge tree doesn't pile up in memory.
+    await writer.flush();
+  } while (startAfter);
+
+  if (ref instanceof DocumentReference) {
+    remove(ref);
+  }
+  if (options?.bulkWriter) await writer.flush();
+  else await writer.close();
+
+  if (failures.length) {
+    const [first] = failures;
+    const message = `${failures.length} deletes failed. The first failure: ${first!.message}`;
+    throw new StatusError(first!.code, message, StatusCode[first!.code]);
+  }
+  return deleted;
+}
+
+/**
+ * Get the names of the next page of documents nested under `ref`, in name order.
+ */
+async function getDescendantNames(
+  firestore: Firestore,
+  ref: DocumentReference<any> | CollectionReference<any>,
+  startAfter?: string
+): Promise<string[]> {
+  const parent = ref instanceof CollectionReference ? ref.parent : ref;
+  const query: api.StructuredQuery = {
+    select: { fields: [{ fieldPath: FieldPath.documentId }] },
+    from: [{ allDescendants: true }],
+    orderBy: [{ field: { fieldPath: FieldPath.documentId } }],
+    limit: pageSize,
+  };
+  if (ref instanceof CollectionReference) {
+    // A kindless query returns documents in every collection under the parent. Limit it to names within this
+    // collection: from its lowest id up to the lowest in the next possible collection id, `collection\0`, as the
+    // official SDKs do.
+    const start = `${ref.qualifiedPath}/${minId}`;
+    const end = `${ref.qualifiedPath}${nullChar}/${minId}`;
+    query.where = {
+      compositeFilter: {
+        op: 'AND',
+        filters: [nameFilter('GREATER_THAN_OR_EQUAL', start), nameFilter('LESS_THAN', end)],
+      },
+    };
+  }
+  if (startAfter) {
+    query.startAt = { values: [{ referenceValue: startAfter }], before: false };
+  }
+
+  const response: api.RunQueryResponse[] = await firestore.request('POST', `${parent.path}:runQuery`, {
+    structuredQuery: query,
+  });
+  const error = response[0]?.error;
+  if (error) throw new StatusError(error.code, error.message, error.status);
+  return response.filter(e => e.document).map(e => e.document!.name);
+}
+
+function nameFilter(op: api.FieldFilterOperator, referenceValue: string): api.Filter {
+  return { fieldFilter: { field: { fieldPath: FieldPath.documentId }, op, value: { referenceValue } } };
+}
@@ -1,18 +1,49 @@
 import type {
   api,
   DocumentData,
+  FirestoreDataConverter,
+  ListCollectionsOptions,
+  ListDocumentsOptions,
   OrderByDirection,
   PartialWithFieldValue,
+  Precondition,
   ReadTransactionOptions,
   SetOptions,
   UpdateData,
+  VectorQueryOptions,
   WhereFilterOp,
   WithFieldValue,
 } from './types';
+import { AggregateField, AggregateQuery, type AggregateSpec } from './aggregate';
 import { DocumentSnapshot } from './document';
+import { decodeExplainMetrics, ExplainResults, type ExplainOptions } from './explain';
+import { escapeFieldSegment } from './field-value';
+import { CompositeFilter, Filter, type PropertyFilter } from './filter';
 import { Firestore } from './firestore';
+import { documentComparator, getValue, splitFieldPath } from './order';
+import { decodePageToken, digestFilters, encodePageToken } from './page-token';
 import { decodePath, encodeValue } from './serializer';
-import { createCursorSymbol, querySymbol, transactionSymbol } from './symbols';
+import { StatusError } from '../status-error';
+import type { WriteResult } from './write-result';
+import {
+  bundledQuerySymbol,
+  createCursorSymbol,
+  docSymbol,
+  encodeFilterSymbol,
+  pageTokenSymbol,
+  querySymbol,
+  readCacheSymbol,
+  readOptionsSymbol,
+  readTimeSymbol,
+  requestSymbol,
+  resolveDocSymbol,
+  runQuerySymbol,
+  snapshotSymbol,
+  streamSymbol,
+  structuredQuerySymbol,
+  toSnapshotSymbol,
+} from './symbols';
+import { VectorValue } from './vector-value';
 
 const directionOperators: { [k: string]: api.StructuredQueryDirection } = {
   asc: 'ASCENDING',
@@ -43,10 +74,32 @@ const unaryOperators: Record<'==' | '!=', Record<'null' | 'NaN', api.UnaryFilter
   },
 };
 
+const defaultPageSize = Math.pow(2, 16) - 1;
+
 const inequalityFilters = new Set(['GREATER_THAN', 'GREATER_THAN_OR_EQUAL', 'LESS_THAN', 'LESS_THAN_OR_EQUAL']);
+// Firestore allows at most 30 values in an `in` or `array-contains-any` filter. Larger ones are split into several
+// queries whose results are merged. `not-in` can't be split this way.
+const maxDisjunctionValues = 30;
+const splittableFilters = new Set(['IN', 'ARRAY_CONTAINS_ANY']);
+
+/**
+ * A field path given as its segments, for field names that contain dots, such as email addresses in a map:
+ * `update(new FieldPath('emails', 'ada@example.com'), true)`. `FieldPath.documentId` is the document's name.
+ */
+export class FieldPath {
+  static readonly documentId = '__name__';
+  readonly segments: string[];
 
-export enum FieldPath {
-  documentId = '__name__',
+  constructor(...segments: string[]) {
+    if (!segments.length || segments.some(segment => !segment)) {
+      throw new Error('A field path needs at least one segment, and no empty segments.');
+    }
+    this.segments = segments;
+  }
+
+  toString(): string {
+    return this.segments.map(escapeFieldSegment).join('.');
+  }
 }
 
 export class Reference {
@@ -69,7 +122,8 @@ export class DocumentReference<T = DocumentData> {
   constructor(
     readonly firestore: Firestore,
     path: string | string[],
-    readonly transactionOptions?: ReadTransactionOptions
+    readonly transactionOptions: ReadTransactionOptions | undefined = firestore[readOptionsSymbol](),
+    readonly converter: FirestoreDataConverter<T> | null = null
   ) {
     const segments = typeof path === 'string' ? trim(path).split('/').filter(Boolean) : path;
     if (segments.length % 2 !== 0)
@@ -94,38 +148,73 @@ export class DocumentReference<T = DocumentData> {
   }
 
   get parent(): CollectionReference<T> {
-    return new CollectionReference<T>(this.firestore, this.path.split('/').slice(0, -1).join('/'));
+    return new CollectionReference<T>(
+      this.firestore,
+      this.segments.slice(0, -1),
+      this.transactionOptions,
+      this.converter
+    );
+  }
+
+  /**
+   * Use `converter` to convert the data written to and read from this document. Pass `null` to remove it.
+   */
+  withConverter<U>(converter: FirestoreDataConverter<U>): DocumentReference<U>;
+  withConverter(converter: null): DocumentReference<DocumentData>;
+  withConverter<U>(converter: FirestoreDataConverter<U> | null): DocumentReference<U> {
+    return new DocumentReference<U>(this.firestore, this.segments, this.transactionOptions, converter);
   }
 
   async get(fields?: string[]) {
     return (await this.firestore.batchGet([this], fields, this.transactionOptions))[0]!;
   }
 
-  async listCollections(): Promise<CollectionReference[]> {
-    const response: api.ListCollectionIdsResponse = await this.firestore.request(
-      'POST',
-      `${this.path}:listCollectionIds`,
-      { pageSize: Math.pow(2, 16) - 1 }
-    );
-    return response.collectionIds.map(id => this.collection(id));
+  async listCollections(options?: ListCollectionsOptions): Promise<CollectionReference[]> {
+    const collections: CollectionReference[] = [];
+    for await (const collection of this.listCollectionsIterator(options)) collections.push(collection);
+    return collections;
+  }
+
+  /**
+   * Iterate over the subcollections of this document, requesting them a page at a time.
+   */
+  async *listCollectionsIterator(options?: ListCollectionsOptions): AsyncGenerator<CollectionReference> {
+    const readTime = options?.readTime?.toISOString() ?? this.transactionOptions?.readTime;
+    let pageToken: string | undefined;
+    do {
+      const response: api.ListCollectionIdsResponse = await this.firestore.request(
+        'POST',
+        `${this.path}:listCollectionIds`,
+        { pageSize: options?.pageSize ?? defaultPageSize, pageToken, readTime }
+      );
+      for (const id of response.collectionIds || []) yield this.collection(id);
+      pageToken = response.nextPageToken;
+    } while (pageToken);
   }
 
-  async create(data: WithFieldValue<T>): Promise<Date | undefined> {
+  async create(data: WithFieldValue<T>): Promise<WriteResult | undefined> {
     return (await this.firestore.batch().create(this, data).commit())[0];
   }
 
-  async delete(): Promise<void> {
-    await this.firestore.batch().delete(this).commit();
+  async delete(precondition?: Precondition): Promise<void> {
+    await this.firestore.batch().delete(this, precondition).commit();
   }
 
-  set(data: PartialWithFieldValue<T>, options: SetOptions): Promise<Date | undefined>;
-  set(data: WithFieldValue<T>): Promise<Date | undefined>;
-  async set(data: PartialWithFieldValue<T>, options?: SetOptions): Promise<Date | undefined> {
+  set(data: PartialWithFieldValue<T>, options: SetOptions): Promise<WriteResult | undefined>;
+  set(data: WithFieldValue<T>): Promise<WriteResult | undefined>;
+  async set(data: PartialWithFieldValue<T>, options?: SetOptions): Promise<WriteResult | undefined> {
     return (await this.firestore.batch().set(this, data, options).commit())[0];
   }
 
-  async update(data: UpdateData<T>): Promise<Date | undefined> {
-    return (await this.firestore.batch().update(this, data).commit())[0];
+  update(data: UpdateData<T>, precondition?: Precondition): Promise<WriteResult | undefined>;
+  update(
+    field: string | FieldPath,
+    value: unknown,
+    ...moreFieldsAndValues: unknown[]
+  ): Promise<WriteResult | undefined>;
+  async update(dataOrField: UpdateData<T> | string | FieldPath, ...rest: unknown[]): Promise<WriteResult | undefined> {
+    const batch = this.firestore.batch().update(this, dataOrField as string, ...(rest as [unknown]));
+    return (await batch.commit())[0];
   }
 }
 
@@ -137,6 +226,16 @@ export class QuerySnapshot<T = DocumentData> {
     readonly docs: Array<DocumentSnapshot<T>>
   ) {}
 
+  /**
+   * A token for the page of results after this one, to pass to `Query.startAfterToken()` when the client asks for it.
+   * It is signed with `secret` so it can't be altered. Resolves to `undefined` when there are no more results, i.e.
+   * the query has no limit or this page is short of it. For `limitToLast()` queries the next page is the one before.
+   * Throws if the query's `select()` leaves out a field it is ordered by, as the token needs its value.
+   */
+  async nextPageToken(secret: string): Promise<string | undefined> {
+    return this.query[pageTokenSymbol](this.docs, secret);
+  }
+
   forEach(callback: (result: DocumentSnapshot<T>) => void, thisArg?: unknown): void {
     for (const doc of this.docs) {
       callback.call(thisArg, doc);
@@ -153,6 +252,10 @@ export interface QueryOptions extends Omit<api.StructuredQuery, 'orderBy'> {
 export class Query<T = DocumentData> {
   protected [querySymbol]: QueryOptions;
 
+  /**
+   * @param ref The collection being queried. For collection group queries this is the root-level collection with the
+   * group's id, and the query runs against the database root over every collection with that id.
+   */
   constructor(
     readonly ref: CollectionReference<T>,
     query: QueryOptions
@@ -160,20 +263,23 @@ export class Query<T = DocumentData> {
     this[querySymbol] = query;
   }
 
-  where(fieldPath: string, opStr: WhereFilterOp, value: unknown): Query<T> {
-    let filter: api.Filter;
-    if (value === undefined) throw new Error('Where value cannot be undefined');
-    if (fieldPath === FieldPath.documentId) {
-      if (typeof value === 'string') value = this.ref.doc(value);
-      else if (Array.isArray(value) && typeof value[0] === 'string') value = value.map(value => this.ref.doc(value));
-    }
-    if ((opStr === '==' || opStr === '!=') && (value === null || (typeof value === 'number' && isNaN(value)))) {
-      const key: 'null' | 'NaN' = value === null ? 'null' : 'NaN';
-      filter = { unaryFilter: { field: { fieldPath }, op: unaryOperators[opStr][key] } };
-    } else {
-      filter = { fieldFilter: { field: { fieldPath }, op: comparisonOperators[opStr], value: encodeValue(value) } };
-    }
-    return new Query<T>(this.ref, { ...this[querySymbol], filters: [...this[querySymbol].filters, filter] });
+  where(fieldPath: string, opStr: WhereFilterOp, value: unknown): Query<T>;
+  where(filter: Filter): Query<T>;
+  where(fieldPathOrFilter: string | Filter, opStr?: WhereFilterOp, value?: unknown): Query<T> {
+    const filter =
+      typeof fieldPathOrFilter === 'string' ? Filter.where(fieldPathOrFilter, opStr!, value) : fieldPathOrFilter;
+    const encoded = this[encodeFilterSymbol](filter);
+    if (!encoded) return this;
+    return new Query<T>(this.ref, { ...this[querySymbol], filters: [...this[querySymbol].filters, encoded] });
+  }
+
+  /**
+   * Use `converter` to convert the documents returned by this query. Pass `null` to remove it.
+   */
+  withConverter<U>(converter: FirestoreDataConverter<U>): Query<U>;
+  withConverter(converter: null): Query<DocumentData>;
+  withConverter<U>(converter: FirestoreDataConverter<U> | null): Query<U> {
+    return new Query<U>(this.ref.withConverter(converter as FirestoreDataConverter<U>), this[querySymbol]);
   }
 
   select(...fieldPaths: string[]): Query<T> {
@@ -205,6 +311,28 @@ export class Query<T = DocumentData> {
     return new Query(this.ref, { ...this[querySymbol], offset });
   }
 
+  /**
+   * Find the documents whose `vectorField` is nearest to `queryVector`, ordered by distance. Any other filters of the
+   * query are applied before the nearest neighbors are found.
+   */
+  findNearest(options: VectorQueryOptions): Query<T> {
+    const { vectorField, queryVector, limit, distanceMeasure, distanceResultField, distanceThreshold } = options;
+    const vector = queryVector instanceof VectorValue ? queryVector : new VectorValue(queryVector);
+    if (!vector.toArray().length) throw new Error('findNearest() requires a non-empty queryVector.');
+    if (!(limit > 0 && limit <= 1000)) throw new Error('findNearest() requires a limit between 1 and 1000.');
+    return new Query(this.ref, {
+      ...this[querySymbol],
+      findNearest: {
+        vectorField: { fieldPath: vectorField },
+        queryVector: encodeValue(vector)!,
+        distanceMeasure,
+        limit,
+        distanceResultField,
+        distanceThreshold,
+      },
+    });
+  }
+
   startAt(...fieldValuesOrDocumentSnapshot: Array<DocumentSnapshot<unknown> | unknown>): Query<T> {
     return new Query(this.ref, {
       ...this[querySymbol],
@@ -233,6 +361,86 @@ export class Query<T = DocumentData> {
     });
   }
 
+  /**
+   * Continue from a token made by `QuerySnapshot.nextPageToken()` for this same query, checking it was signed with
+   * `secret`. Throws if the token is invalid or was made for a different query, or if the query's `select()` leaves
+   * out a field it is ordered by.
+   *
+   * ```
+   * const query = firestore.collection('posts').orderBy('createdAt', 'desc').limit(20);
+   * const page = await (pageToken ? await query.startAfterToken(pageToken, secret) : query).get();
+   * return Response.json({ posts: page.docs.map(doc => doc.data()), next: await page.nextPageToken(secret) });
+   * ```
+   */
+  async startAfterToken(pageToken: string, secret: string): Promise<Query<T>> {
+    assertPageable(this[querySymbol]);
+    const cursor = await decodePageToken(pageToken, secret);
+    const query = withDocumentIdOrder(this[querySymbol]);
+    const orders = encodeOrders(query.orderBy);
+    if (
+      cursor.path !== this.ref.qualifiedPath ||
+      cursor.reverse !== !!query.reverse ||
+      cursor.orders.join() !== orders.join() ||
+      cursor.filters !== (await digestFilters(query.filters)) ||
+      cursor.values.length !== orders.length
+    ) {
+      throw new Error('The page token is for a different query.');
+    }
+    // limitToLast() pages backwards, ending before the first result of the last page
+    const position: api.Cursor = { values: cursor.values, before: !!query.reverse };
+    return new Query(this.ref, query.reverse ? { ...query, endAt: position } : { ...query, startAt: position });
+  }
+
+  async [pageTokenSymbol](docs: DocumentSnapshot<T>[], secret: string): Promise<string | undefined> {
+    assertPageable(this[querySymbol]);
+    const query = withDocumentIdOrder(this[querySymbol]);
+    if (query.limit === undefined || !docs.length || docs.length < query.limit) return undefined;
+    const last = query.reverse ? docs[0]! : docs[docs.length - 1]!;
+    const values = query.orderBy.map(({ field }) => {
+      const value = getValue(last[docSymbol], field!.fieldPath!);
+      if (!value) throw new Error(`A page token needs the ${field!.fieldPath} field the query is ordered by.`);
+      return value;
+    });
+    const orders = encodeOrders(query.orderBy);
+    const filters = await digestFilters(query.filters);
+    const cursor = { path: this.ref.qualifiedPath, orders, reverse: !!query.reverse, filters, values };
+    return encodePageToken(cursor, secret);
+  }
+
+  /**
+   * Resolve a document id used in a `FieldPath.documentId` filter or cursor. Collection group queries span many
+   * collections, so they need the full document path instead.
+   */
+  private [resolveDocSymbol](path: string): DocumentReference<T> {
+    if (this[querySymbol].from?.[0].allDescendants) {
+      return new DocumentReference<T>(this.ref.firestore, path, this.ref.transactionOptions, this.ref.converter);
+    }
+    return this.ref.doc(path);
+  }
+
+  private [encodeFilterSymbol](filter: Filter): api.Filter | undefined {
+    if (filter instanceof CompositeFilter) {
+      const filters = filter.filters
+        .map(filter => this[encodeFilterSymbol](filter))
+        .filter((filter): filter is api.Filter => !!filter);
+      // An empty composite matches everything and a single filter doesn't need wrapping.
+      if (filters.length <= 1) return filters[0];
+      return { compositeFilter: { op: filter.operator, filters } };
+    }
+    let { fieldPath, opStr, value } = filter as PropertyFilter;
+    if (value === undefined) throw new Error('Where value cannot be undefined');
+    if (fieldPath === FieldPath.documentId) {
+      if (typeof value === 'string') value = this[resolveDocSymbol](value);
+      else if (Array.isArray(value) && typeof value[0] === 'string')
+        value = value.map(value => this[resolveDocSymbol](value));
+    }
+    if ((opStr === '==' || opStr === '!=') && (value === null || (typeof value === 'number' && isNaN(value)))) {
+      const key: 'null' | 'NaN' = value === null ? 'null' : 'NaN';
+      return { unaryFilter: { field: { fieldPath }, op: unaryOperators[opStr][key] } };
+    }
+    return { fieldFilter: { field: { fieldPath }, op: comparisonOperators[opStr], value: encodeValue(value) } };
+  }
+
   private [createCursorSymbol](
     cursorValuesOrDocumentSnapshot: Array<DocumentSnapshot | unknown>,
     before: boolean
@@ -259,7 +467,7 @@ export class Query<T = DocumentData> {
       const fieldOrder = fieldOrders[i]!;
 
       if (fieldOrder.field?.fieldPath === FieldPath.documentId && typeof fieldValue === 'string') {
-        fieldValue = this.ref.doc(fieldValue);
+        fieldValue = this[resolveDocSymbol](fieldValue);
       }
       if (typeof fieldValue === 'undefined') {
         throw new Error('A cursor value must be provided for the ' + fieldOrder.field?.fieldPath + ' field.');
@@ -272,7 +480,101 @@ export class Query<T = DocumentData> {
     return cursor;
   }
 
-  async get(): Promise<QuerySnapshot<T>> {
+  get(): Promise<QuerySnapshot<T>> {
+    return this[runQuerySymbol](this.ref.transactionOptions);
+  }
+
+  async [runQuerySymbol](consistency?: ReadTransactionOptions): Promise<QuerySnapshot<T>> {
+    const subqueries = splitDisjunctions(this[querySymbol]);
+    if (!subqueries) return this[snapshotSymbol](await this[requestSymbol](consistency));
+
+    const snapshots = await Promise.all(
+      subqueries.map(query => new Query<T>(this.ref, query)[runQuerySymbol](consistency))
+    );
+    const seen = new Set<string>();
+    let docs = snapshots
+      .flatMap(snapshot => snapshot.docs)
+      .filter(doc => !seen.has(doc.ref.path) && seen.add(doc.ref.path));
+    const compare = documentComparator(getFieldOrders(this[querySymbol]));
+    docs.sort((a, b) => compare(a[docSymbol], b[docSymbol]));
+    // Drop the order fields the subqueries selected only to merge by
+    const unselected = unselectedOrderFields(this[querySymbol]);
+    if (unselected.length) {
+      docs = docs.map(doc => this[toSnapshotSymbol](withoutFields(doc[docSymbol], unselected), doc[readTimeSymbol]));
+    }
+
+    // Apply the offset and limit the subqueries couldn't
+    const { offset = 0, limit = docs.length, reverse } = this[querySymbol];
+    const page = reverse
+      ? docs.slice(Math.max(0, docs.length - offset - limit), Math.max(0, docs.length - offset))
+      : docs.slice(offset, offset + limit);
+    return new QuerySnapshot<T>(this, snapshots[0]!.readTime, page.length, page);
+  }
+
+  /**
+   * Get the plan the server uses for this query, such as the indexes it needs. With `analyze`, the query is also run
+   * and its results and execution stats are returned.
+   */
+  async explain(options: ExplainOptions = {}): Promise<ExplainResults<QuerySnapshot<T>>> {
+    assertUnsplit(this[querySymbol], 'explain');
+    const response = await this[requestSymbol](this.ref.transactionOptions, options);
+    const metrics = decodeExplainMetrics(response.find(e => e.explainMetrics)?.explainMetrics);
+    return new ExplainResults(metrics, options.analyze ? this[snapshotSymbol](response) : null);
+  }
+
+  private async [requestSymbol](
+    consistency?: ReadTransactionOptions,
+    explainOptions?: ExplainOptions
+  ): Promise<api.RunQueryResponse[]> {
+    const load = async () => {
+      const response: api.RunQueryResponse[] = [];
+      for await (const entry of this[streamSymbol](consistency, explainOptions)) response.push(entry);
+      return response;
+    };
+    // Queries in a transaction aren't cached
+    const cache = !consistency && !explainOptions && this.ref.firestore[readCacheSymbol];
+    return cache ? cache.readQuery(qualifiedParent(this.ref), this[structuredQuerySymbol](), load) : load();
+  }
+
+  /**
+   * Run the query, yielding the entries of the response as they arrive.
+   */
+  private async *[streamSymbol](
+    consistency?: ReadTransactionOptions,
+    explainOptions?: ExplainOptions
+  ): AsyncGenerator<api.RunQueryResponse> {
+    const request: api.RunQueryRequest = {
+      structuredQuery: this[structuredQuerySymbol](),
+      explainOptions,
+      ...consistency,
+    };
+    const path = `${this.ref.parent.path}:runQuery`;
+    for await (const entry of this.ref.firestore.stream<api.RunQueryResponse>('POST', path, request)) {
+      const { error } = entry;
+      if (error) throw new StatusError(error.code, error.message, error.status);
+      yield entry;
+    }
+  }
+
+  private [snapshotSymbol](response: api.RunQueryResponse[]): QuerySnapshot<T> {
+    const readTime = new Date(response.find(e => e.readTime)!.readTime);
+    const docs = response
+      .filter((e): e is api.RunQueryResponse & { document: api.Document } => !!e.document)
+      .map(e => this[toSnapshotSymbol](e.document, e.readTime));
+    if (this[querySymbol].reverse) docs.reverse();
+    return new QuerySnapshot<T>(this, readTime, docs.length, docs);
+  }
+
+  private [toSnapshotSymbol](document: api.Document, readTime?: string): DocumentSnapshot<T> {
+    const { firestore, transactionOptions, converter } = this.ref;
+    const ref = new DocumentReference<T>(firestore, decodePath(document.name), transactionOptions, converter);
+    return new DocumentSnapshot<T>(ref, document, readTime);
+  }
+
+  /**
+   * Compile the query options into the `StructuredQuery` sent to `:runQuery` and `:runAggregationQuery`.
+   */
+  [structuredQuerySymbol](): api.StructuredQuery {
     const { reverse, filters, ...query } = this[querySymbol];
     const fieldOrders = getFieldOrders(this[querySymbol]);
     query.orderBy = fieldOrders;
@@ -291,51 +593,63 @@ export class Query<T = DocumentData> {
         direction: direction === 'DESCENDING' ? 'ASCENDING' : 'DESCENDING',
       }));
       // Swap the cursors to match the now-flipped query ordering.
-      query.startAt = query.endAt ? { values: query.endAt.values, before: !query.endAt.before } : undefined;
-      query.endAt = query.startAt ? { values: query.startAt.values, before: !query.startAt.before } : undefined;
+      const { startAt, endAt } = query;
+      query.startAt = endAt ? { values: endAt.values, before: !endAt.before } : undefined;
+      query.endAt = startAt ? { values: startAt.values, before: !startAt.before } : undefined;
     }
-    const response: api.RunQueryResponse[] = await this.ref.firestore.request(
-      'POST',
-      `${this.ref.parent.path}:runQuery`,
-      {
-        structuredQuery: query,
-        transaction: this.ref.firestore[transactionSymbol],
-      }
-    );
-
-    const readTime = new Date(response[0]!.readTime);
-    if (response[0]?.error) throw new Error(response[0].error.message);
-    if (response[0]?.skippedResults) response.shift();
-    if (reverse) response.reverse();
-    const docs = response
-      .filter((e): e is api.RunQueryResponse & { document: api.Document } => !!e.document)
-      .map(
-        e =>
-          new DocumentSnapshot<T>(
-            this.ref.doc(decodePath(e.document.name).replace(this.ref.path, '')),
-            e.document,
-            e.readTime
-          )
-      );
-    return new QuerySnapshot<T>(this, readTime, response.length, docs);
-  }
-
-  async *stream<T>(batchSize: number = 100): AsyncGenerator<T> {
-    const query = this.limit(batchSize);
-    let snapshot = await query.get();
-
-    while (true) {
-      const lastDoc = snapshot.docs[snapshot.docs.length - 1];
-
-      for (const doc of snapshot.docs) {
-        yield doc.data() as T;
-      }
-
-      if (snapshot.docs.length < batchSize) {
-        break;
-      }
-
-      snapshot = await query.startAfter(lastDoc).get();
+    return query;
+  }
+
+  /**
+   * The query as stored in a bundle, where `limitToLast()` queries keep their order and are flipped by the client.
+   */
+  [bundledQuerySymbol](): api.BundledQuery {
+    const { reverse, ...query } = this[querySymbol];
+    return {
+      parent: qualifiedParent(this.ref),
+      structuredQuery: new Query(this.ref, query)[structuredQuerySymbol](),
+      limitType: reverse ? 'LAST' : 'FIRST',
+    };
+  }
+
+  /**
+   * Count the documents matching this query on the server, without retrieving them.
+   */
+  count(): AggregateQuery<{ count: AggregateField<number> }, T> {
+    return this.aggregate({ count: AggregateField.count() });
+  }
+
+  /**
+   * Compute aggregations over the documents matching this query on the server, without retrieving them.
+   *
+   * ```
+   * const snapshot = await query.aggregate({ total: sum('amount'), avg: average('score'), n: count() }).get();
+   * const { total, avg, n } = snapshot.data();
+   * ```
+   */
+  aggregate<A extends AggregateSpec>(aggregateSpec: A): AggregateQuery<A, T> {
+    assertUnsplit(this[querySymbol], 'aggregate');
+    return new AggregateQuery(this, aggregateSpec);
+  }
+
+  /**
+   * Run the query, yielding each document as it arrives instead of waiting for all of them. Stop iterating to cancel
+   * the rest of the response.
+   *
+   * ```
+   * for await (const doc of firestore.collection('events').orderBy('time').stream()) {
+   *   await process(doc.data());
+   * }
+   * ```
+   */
+  async *stream(): AsyncGenerator<DocumentSnapshot<T>> {
+    // limitToLast() results arrive in reverse, and split queries need merging, so they can only be returned together
+    if (this[querySymbol].reverse || splitDisjunctions(this[querySymbol])) {
+      yield* (await this.get()).docs;
+      return;
+    }
+    for await (const entry of this[streamSymbol](this.ref.transactionOptions)) {
+      if (entry.document) yield this[toSnapshotSymbol](entry.document, entry.readTime);
     }
   }
 }
@@ -346,7 +660,8 @@ export class CollectionReference<T = DocumentData> extends Query<T> {
   constructor(
     readonly firestore: Firestore,
     path: string | string[],
-    readonly transactionOptions?: ReadTransactionOptions
+    readonly transactionOptions: ReadTransactionOptions | undefined = firestore[readOptionsSymbol](),
+    readonly converter: FirestoreDataConverter<T> | null = null
   ) {
     const segments = typeof path === 'string' ? trim(path).split('/') : path;
     if (segments.length % 2 !== 1)
@@ -366,7 +681,22 @@ export class CollectionReference<T = DocumentData> extends Query<T> {
 
   doc(path?: string): DocumentReference<T> {
     if (!path) path = this.firestore.autoId();
-    return new DocumentReference(this.firestore, this.segments.concat(trim(path).split('/')));
+    return new DocumentReference(
+      this.firestore,
+      this.segments.concat(trim(path).split('/')),
+      this.transactionOptions,
+      this.converter
+    );
+  }
+
+  /**
+   * Use `converter` to convert the data written to and read from documents in this collection. Pass `null` to remove
+   * it.
+   */
+  withConverter<U>(converter: FirestoreDataConverter<U>): CollectionReference<U>;
+  withConverter(converter: null): CollectionReference<DocumentData>;
+  withConverter<U>(converter: FirestoreDataConverter<U> | null): CollectionReference<U> {
+    return new CollectionReference<U>(this.firestore, this.segments, this.transactionOptions, converter);
   }
 
   get id(): string {
@@ -385,13 +715,33 @@ export class CollectionReference<T = DocumentData> extends Query<T> {
     return new DocumentReference(this.firestore, this.path.split('/').slice(0, -1).join('/'));
   }
 
-  async listDocuments(): Promise<Array<DocumentReference<T>>> {
-    const query = new URLSearchParams({
-      showMissing: 'true',
-      pageSize: String(Math.pow(2, 16) - 1),
-    });
-    const response: api.ListDocumentsResponse = await this.firestore.request('GET', this.path, query);
-    return response.documents.map(doc => new DocumentReference(this.firestore, doc.name));
+  async listDocuments(options?: ListDocumentsOptions): Promise<Array<DocumentReference<T>>> {
+    const refs: Array<DocumentReference<T>> = [];
+    for await (const ref of this.listDocumentsIterator(options)) refs.push(ref);
+    return refs;
+  }
+
+  /**
+   * Iterate over the documents in this collection, requesting them a page at a time. By default this includes missing
+   * documents, which don't exist themselves but have subcollections.
+   */
+  async *listDocumentsIterator(options?: ListDocumentsOptions): AsyncGenerator<DocumentReference<T>> {
+    const readTime = options?.readTime?.toISOString() ?? this.transactionOptions?.readTime;
+    let pageToken: string | undefined;
+    do {
+      const query = new URLSearchParams({
+        showMissing: String(options?.showMissing ?? true),
+        pageSize: String(options?.pageSize ?? defaultPageSize),
+      });
+      if (pageToken) query.set('pageToken', pageToken);
+      if (readTime) query.set('readTime', readTime);
+      options?.mask?.forEach(fieldPath => query.append('mask.fieldPaths', fieldPath));
+      const response: api.ListDocumentsResponse = await this.firestore.request('GET', this.path, query);
+      for (const doc of response.documents || []) {
+        yield new DocumentReference<T>(this.firestore, decodePath(doc.name), this.transactionOptions, this.converter);
+      }
+      pageToken = response.nextPageToken;
+    } while (pageToken);
   }
 
   async add(data: WithFieldValue<T>): Promise<DocumentReference<T>> {
@@ -408,17 +758,143 @@ function trim(path: string) {
 function getFieldOrders(query: QueryOptions): api.StructuredQueryOrder[] {
   const fieldOrders = query.orderBy.slice();
   if (!fieldOrders.length) {
-    for (const fieldFilter of query.filters) {
-      const op = fieldFilter.fieldFilter?.op;
-      if (op && inequalityFilters.has(op)) {
-        fieldOrders.push({ field: fieldFilter.fieldFilter!.field });
-        break;
-      }
-    }
+    const field = findInequalityField(query.filters);
+    if (field) fieldOrders.push({ field });
   }
   return fieldOrders;
 }
 
+/**
+ * The field of the first inequality filter, including those nested in `Filter.and()` and `Filter.or()`.
+ */
+function findInequalityField(filters: api.Filter[]): api.FieldReference | undefined {
+  for (const { fieldFilter, compositeFilter } of filters) {
+    if (fieldFilter?.op && inequalityFilters.has(fieldFilter.op)) return fieldFilter.field;
+    const field = compositeFilter?.filters && findInequalityField(compositeFilter.filters);
+    if (field) return field;
+  }
+  return undefined;
+}
+
+/**
+ * The query ordered by document name after its other orders, so that a cursor points at a single document.
+ */
+function withDocumentIdOrder(query: QueryOptions): QueryOptions {
+  const orderBy = getFieldOrders(query);
+  if (!orderBy.some(({ field }) => field?.fieldPath === FieldPath.documentId)) {
+    const direction = orderBy[orderBy.length - 1]?.direction;
+    orderBy.push({ field: { fieldPath: FieldPath.documentId }, direction });
+  }
+  return { ...query, orderBy };
+}
+
+function encodeOrders(orders: api.StructuredQueryOrder[]): string[] {
+  return orders.map(({ field, direction }) => `${field?.fieldPath} ${direction ?? 'ASCENDING'}`);
+}
+
+/**
+ * The full name of the document or database root a collection's queries run against.
+ */
+function qualifiedParent(ref: CollectionReference<any>): string {
+  const { basePath } = ref.firestore;
+  const parentPath = ref.parent.path;
+  return parentPath ? `${basePath}/${parentPath}` : basePath;
+}
+
+/**
+ * Split a query with an `in` or `array-contains-any` filter over too many values into queries over chunks of the
+ * values. Each query returns enough results to fill the offset and limit once merged.
+ */
+function splitDisjunctions(query: QueryOptions): QueryOptions[] | undefined {
+  const index = query.filters.findIndex(
+    ({ fieldFilter }) =>
+      splittableFilters.has(fieldFilter?.op!) &&
+      (fieldFilter?.value?.arrayValue?.values?.length ?? 0) > maxDisjunctionValues
+  );
+  if (index === -1) return undefined;
+
+  const { field, op, value } = query.filters[index]!.fieldFilter!;
+  const values = value!.arrayValue!.values;
+  const { offset, limit, select, ...rest } = query;
+  const subquery: QueryOptions = { ...rest, limit: limit === undefined ? undefined : limit + (offset ?? 0) };
+  if (select) {
+    // The results are merged by their order fields, so they need to be returned
+    const fields = select.fields ?? [];
+    subquery.select = { fields: [...fields, ...unselectedOrderFields(query).map(fieldPath => ({ fieldPath }))] };
+  }
+
+  const subqueries: QueryOptions[] = [];
+  for (let i = 0; i < values.length; i += maxDisjunctionValues) {
+    const filters = query.filters.slice();
+    filters[index] = {
+      fieldFilter: { field, op, value: { arrayValue: { values: values.slice(i, i + maxDisjunctionValues) } } },
+    };
+    subqueries.push({ ...subquery, filters });
+  }
+  return subqueries;
+}
+
+/**
+ * Throw for a query `method` can't run, because its disjunction is too large to run as one query.
+ */
+function assertUnsplit(query: QueryOptions, method: string) {
+  if (splitDisjunctions(query)) {
+    throw new Error(
+      `${method}() can't be used with more than ${maxDisjunctionValues} values in an 'in' or 'array-contains-any' ` +
+        'filter. Only get() and stream() split the query.'
+    );
+  }
+}
+
+/**
+ * Throw if the query's `select()` leaves out a field it is ordered by, which a page token needs the value of.
+ */
+function assertPageable(query: QueryOptions) {
+  const [fieldPath] = unselectedOrderFields(query);
+  if (fieldPath) {
+    throw new Error(`Page tokens need the fields a query is ordered by, add ${fieldPath} to its select().`);
+  }
+}
+
+/**
+ * The fields the query is ordered by that its `select()` doesn't return.
+ */
+function unselectedOrderFields(query: QueryOptions): string[] {
+  const selected = query.select?.fields?.map(({ fieldPath }) => splitFieldPath(fieldPath!));
+  if (!selected) return [];
+  const fieldPaths: string[] = [];
+  for (const { field } of getFieldOrders(query)) {
+    const fieldPath = field?.fieldPath;
+    if (!fieldPath || fieldPath === FieldPath.documentId) continue;
+    const segments = splitFieldPath(fieldPath);
+    // Selecting a map returns all of its fields
+    if (!selected.some(path => path.every((segment, i) => segment === segments[i]))) fieldPaths.push(fieldPath);
+  }
+  return fieldPaths;
+}
+
+/**
+ * A copy of `doc` without the fields at `fieldPaths`, also dropping maps left empty.
+ */
+function withoutFields(doc: api.Document, fieldPaths: string[]): api.Document {
+  const fields = { ...doc.fields };
+  for (const fieldPath of fieldPaths) deleteField(fields, splitFieldPath(fieldPath));
+  return { ...doc, fields };
+}
+
+function deleteField(fields: Record<string, api.Value>, [segment, ...rest]: string[]) {
+  if (!rest.length) {
+    delete fields[segment!];
+    return;
+  }
+  const map = fields[segment!]?.mapValue?.fields;
+  if (!map) return;
+  const copy = { ...map };
+  deleteField(copy, rest);
+  if (Object.keys(copy).length) fields[segment!] = { mapValue: { fields: copy } };
+  else delete fields[segment!];
+}
+
 function extractFieldValues(documentSnapshot: DocumentSnapshot, fieldOrders: api.StructuredQueryOrder[]): unknown[] {
   const fieldValues: unknown[] = [];
 
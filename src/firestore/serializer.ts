@@ -1,8 +1,17 @@
+import { Bytes } from './bytes';
 import { FieldValue, UpdateCollector } from './field-value';
 import { Firestore } from './firestore';
+import { GeoPoint } from './geo-point';
 import { Reference } from './reference';
+import { Timestamp } from './timestamp';
 import type { DocumentData, api } from './types';
+import { VectorValue } from './vector-value';
 const RESOURCE_PATH_RE = /^projects\/([^/]+)\/databases\/([^/]+)(?:\/documents\/)?/;
+const TYPE_KEY = '__type__';
+const VECTOR_TYPE = '__vector__';
+const VECTOR_VALUE_KEY = 'value';
+const MIN_INT64 = -(BigInt(2) ** BigInt(63));
+const MAX_INT64 = BigInt(2) ** BigInt(63) - BigInt(1);
 
 export function encode(map: DocumentData, collector?: UpdateCollector): api.MapValue {
   const fields: api.MapValue = {};
@@ -15,8 +24,9 @@ export function encode(map: DocumentData, collector?: UpdateCollector): api.MapV
     // Maps contribute dotted leaf paths via recursion, so adding the map's
     // own path would cause merge to overwrite sibling fields. Arrays must
     // add their own path: Firestore fieldPaths can't address array elements,
-    // so arrays are always replaced whole at the parent path.
-    const shouldAddMask = !fields[key] || !fields[key]!.mapValue;
+    // so arrays are always replaced whole at the parent path. Vectors are
+    // stored as maps but, like arrays, are replaced whole.
+    const shouldAddMask = !fields[key] || !fields[key]!.mapValue || value instanceof VectorValue;
     collector?.leaveField(shouldAddMask);
   });
   return fields;
@@ -27,16 +37,28 @@ export function encodeValue(value: any, collector?: UpdateCollector): api.Value
   if (typeof value === 'boolean') return { booleanValue: value };
   if (typeof value === 'number' && !(value === 0 && 1 / value === 1 / -0) && Number.isSafeInteger(value))
     return { integerValue: '' + value };
-  if (typeof value === 'number') return { doubleValue: value };
+  // JSON has no NaN or Infinity, Firestore takes them as strings
+  if (typeof value === 'number') return { doubleValue: Number.isFinite(value) ? value : String(value) };
+  if (typeof value === 'bigint') {
+    if (value < MIN_INT64 || value > MAX_INT64) throw new Error(`BigInt ${value} is out of the 64-bit integer range`);
+    return { integerValue: value.toString() };
+  }
   if (value instanceof FieldValue) {
     collector?.transform(value);
     return undefined;
   }
   if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (value instanceof Timestamp) return { timestampValue: value.toISOString() };
+  if (value instanceof GeoPoint) return { geoPointValue: value.toJSON() };
+  if (value instanceof Bytes) return { bytesValue: value.toBase64() };
+  if (value instanceof VectorValue) return encodeVector(value);
   if (value.qualifiedPath) return { referenceValue: value.qualifiedPath };
   if (typeof value === 'string') return { stringValue: value };
-  if (value instanceof ArrayBuffer) return { bytesValue: bytesToBase64(new Uint8Array(value)) };
-  if (value && value.buffer instanceof ArrayBuffer) return { bytesValue: bytesToBase64(value) };
+  if (value instanceof ArrayBuffer) return { bytesValue: Bytes.fromUint8Array(new Uint8Array(value)).toBase64() };
+  if (value && value.buffer instanceof ArrayBuffer) {
+    const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    return { bytesValue: Bytes.fromUint8Array(bytes).toBase64() };
+  }
   if (typeof value === 'object' && 'latitude' in value && 'longitude' in value && Object.keys(value).length === 2)
     return { geoPointValue: value };
   // Don't pass the collector into array elements. Firestore fieldPaths
@@ -70,51 +92,51 @@ export function decodeValue(firestore: Firestore, valueObj: api.Value): any {
     case 'booleanValue':
       return value;
     case 'integerValue':
-      return parseInt(value, 10);
+      return firestore.useBigInt ? BigInt(value) : Number(value);
     case 'doubleValue':
       return typeof value === 'number' ? value : parseFloat(value);
     case 'timestampValue':
-      return new Date(value);
+      return Timestamp.fromISOString(value);
     case 'stringValue':
       return value;
     case 'bytesValue':
-      return base64ToBytes(value).buffer;
+      return Bytes.fromBase64String(value);
     case 'geoPointValue':
-      return value;
+      return new GeoPoint(value.latitude ?? 0, value.longitude ?? 0);
     case 'arrayValue':
       return value.values?.map((v: api.Value) => decodeValue(firestore, v)) || [];
     case 'mapValue':
+      if (value.fields?.[TYPE_KEY]?.stringValue === VECTOR_TYPE) {
+        return new VectorValue(value.fields[VECTOR_VALUE_KEY]?.arrayValue?.values?.map(decodeVectorComponent) || []);
+      }
       return decode(firestore, value.fields);
-    case 'referenceValue':
-      return new Reference(firestore, value.replace(RESOURCE_PATH_RE, ''));
+    case 'referenceValue': {
+      // References may point to documents in another database of the project
+      const databaseId = RESOURCE_PATH_RE.exec(value)?.[2];
+      const database = databaseId && databaseId !== firestore.databaseId ? firestore.database(databaseId) : firestore;
+      return new Reference(database, value.replace(RESOURCE_PATH_RE, ''));
+    }
   }
 }
 
-export function decodePath(path: string): string {
-  return path.replace(RESOURCE_PATH_RE, '');
-}
-
 /**
- * Encode a Uint8Array to base64 without corrupting binary data.
- * Chunked to avoid stack overflow on large arrays (String.fromCharCode has argument limits).
+ * Firestore stores vectors as a map with a `__type__` marker and the components as an array of doubles.
  */
-function bytesToBase64(bytes: Uint8Array): string {
-  let binary = '';
-  const chunkSize = 0x8000;
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
-  }
-  return btoa(binary);
+function encodeVector(vector: VectorValue): api.Value {
+  return {
+    mapValue: {
+      fields: {
+        [TYPE_KEY]: { stringValue: VECTOR_TYPE },
+        [VECTOR_VALUE_KEY]: { arrayValue: { values: vector.toArray().map(doubleValue => ({ doubleValue })) } },
+      },
+    },
+  };
 }
 
-/**
- * Decode a base64 string back to a Uint8Array of raw bytes.
- */
-function base64ToBytes(b64: string): Uint8Array {
-  const binary = atob(b64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes;
+function decodeVectorComponent(value: api.Value): number {
+  return Number(value.doubleValue ?? value.integerValue ?? 0);
+}
+
+export function decodePath(path: string): string {
+  return path.replace(RESOURCE_PATH_RE, '');
 }
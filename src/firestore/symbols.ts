@@ -5,3 +5,20 @@ export const docSymbol = Symbol();
 export const readTimeSymbol = Symbol();
 export const createCursorSymbol = Symbol();
 export const updateSymbol = Symbol();
+export const runQuerySymbol = Symbol();
+export const beginSymbol = Symbol();
+export const commitSymbol = Symbol();
+export const rollbackSymbol = Symbol();
+export const structuredQuerySymbol = Symbol();
+export const encodeFilterSymbol = Symbol();
+export const resolveDocSymbol = Symbol();
+export const requestSymbol = Symbol();
+export const snapshotSymbol = Symbol();
+export const readOptionsSymbol = Symbol();
+export const assertWritableSymbol = Symbol();
+export const streamSymbol = Symbol();
+export const toSnapshotSymbol = Symbol();
+export const bundledQuerySymbol = Symbol();
+export const cacheSymbol = Symbol();
+export const pageTokenSymbol = Symbol();
+export const readCacheSymbol = Symbol();
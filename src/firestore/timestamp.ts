@@ -0,0 +1,82 @@
+const MIN_SECONDS = -62135596800; // 0001-01-01T00:00:00Z
+const MAX_SECONDS = 253402300799; // 9999-12-31T23:59:59Z
+const TIMESTAMP_RE = /^(\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d)(?:\.(\d{1,9}))?(Z|[+-]\d\d:\d\d)$/i;
+
+/**
+ * A point in time with nanosecond precision, as stored by Firestore. Unlike `Date`, which only keeps milliseconds,
+ * timestamps read from Firestore can be written back or used in queries without losing precision.
+ */
+export class Timestamp {
+  static now(): Timestamp {
+    return Timestamp.fromMillis(Date.now());
+  }
+
+  static fromDate(date: Date): Timestamp {
+    return Timestamp.fromMillis(date.getTime());
+  }
+
+  static fromMillis(milliseconds: number): Timestamp {
+    const seconds = Math.floor(milliseconds / 1000);
+    const nanoseconds = Math.floor((milliseconds - seconds * 1000) * 1e6);
+    return new Timestamp(seconds, nanoseconds);
+  }
+
+  /**
+   * Parse an RFC 3339 timestamp, such as those Firestore returns, keeping up to nanosecond precision.
+   */
+  static fromISOString(value: string): Timestamp {
+    const match = TIMESTAMP_RE.exec(value);
+    if (!match) throw new Error(`Invalid timestamp: ${value}`);
+    const [, dateTime, fraction = '', zone] = match;
+    const seconds = Date.parse(`${dateTime}${zone}`) / 1000;
+    return new Timestamp(seconds, parseInt(fraction.padEnd(9, '0'), 10));
+  }
+
+  constructor(
+    readonly seconds: number,
+    readonly nanoseconds: number
+  ) {
+    if (!Number.isInteger(seconds) || seconds < MIN_SECONDS || seconds > MAX_SECONDS) {
+      throw new Error(`Timestamp seconds out of range: ${seconds}`);
+    }
+    if (!Number.isInteger(nanoseconds) || nanoseconds < 0 || nanoseconds > 999999999) {
+      throw new Error(`Timestamp nanoseconds out of range: ${nanoseconds}`);
+    }
+  }
+
+  toDate(): Date {
+    return new Date(this.toMillis());
+  }
+
+  toMillis(): number {
+    return this.seconds * 1000 + Math.floor(this.nanoseconds / 1e6);
+  }
+
+  /**
+   * Format as an RFC 3339 timestamp with nanoseconds, as Firestore expects.
+   */
+  toISOString(): string {
+    const date = new Date(this.seconds * 1000).toISOString();
+    return `${date.slice(0, -5)}.${String(this.nanoseconds).padStart(9, '0')}Z`;
+  }
+
+  isEqual(other: Timestamp): boolean {
+    return other.seconds === this.seconds && other.nanoseconds === this.nanoseconds;
+  }
+
+  /**
+   * A string that sorts in time order, so timestamps can be compared with `<` and `>`.
+   */
+  valueOf(): string {
+    const seconds = String(this.seconds - MIN_SECONDS).padStart(12, '0');
+    return `${seconds}.${String(this.nanoseconds).padStart(9, '0')}`;
+  }
+
+  toString(): string {
+    return this.toISOString();
+  }
+
+  toJSON(): string {
+    return this.toISOString();
+  }
+}
@@ -0,0 +1,141 @@
+import type { AggregateQuery, AggregateQuerySnapshot, AggregateSpec } from './aggregate';
+import { DocumentSnapshot } from './document';
+import { Firestore } from './firestore';
+import { DocumentReference, FieldPath, Query, QuerySnapshot } from './reference';
+import { beginSymbol, commitSymbol, rollbackSymbol, runQuerySymbol, transactionSymbol, writesSymbol } from './symbols';
+import type {
+  DocumentData,
+  PartialWithFieldValue,
+  Precondition,
+  ReadTransactionOptions,
+  SetOptions,
+  TransactionOptions,
+  UpdateData,
+  WithFieldValue,
+  api,
+} from './types';
+import { WriteBatch } from './write-batch';
+
+/**
+ * A transaction passed to the update function of `Firestore.runTransaction()`. It carries its own transaction id and
+ * buffers its writes until the update function resolves, so concurrent transactions in the same isolate are kept
+ * apart. All reads must happen before any writes.
+ */
+export class Transaction {
+  private [transactionSymbol]?: string;
+  private [writesSymbol]: WriteBatch;
+  private readonly readOnly: boolean;
+  private readonly readTime?: string;
+
+  constructor(
+    readonly firestore: Firestore,
+    options?: TransactionOptions
+  ) {
+    this[writesSymbol] = new WriteBatch(firestore);
+    this.readOnly = !!options?.readOnly;
+    this.readTime = options?.readTime?.toISOString();
+    if (this.readTime && !this.readOnly) {
+      throw new Error('readTime can only be used with read-only transactions.');
+    }
+  }
+
+  /**
+   * The id of this transaction, used to retry it when it is aborted.
+   */
+  get id(): string | undefined {
+    return this[transactionSymbol];
+  }
+
+  /**
+   * Read a document, run a query or run an aggregation query within this transaction.
+   */
+  get<T = DocumentData>(ref: DocumentReference<T>, fields?: string[]): Promise<DocumentSnapshot<T>>;
+  get<T = DocumentData>(query: Query<T>): Promise<QuerySnapshot<T>>;
+  get<A extends AggregateSpec, T = DocumentData>(query: AggregateQuery<A, T>): Promise<AggregateQuerySnapshot<A, T>>;
+  async get<T = DocumentData>(
+    refOrQuery: DocumentReference<T> | Query<T> | AggregateQuery<AggregateSpec, T>,
+    fields?: string[]
+  ): Promise<DocumentSnapshot<T> | QuerySnapshot<T> | AggregateQuerySnapshot<AggregateSpec, T>> {
+    const consistency = this.readOptions();
+    if (refOrQuery instanceof DocumentReference) {
+      return (await this.firestore.batchGet([refOrQuery], fields, consistency))[0]!;
+    }
+    return refOrQuery[runQuerySymbol](consistency);
+  }
+
+  /**
+   * Read multiple documents within this transaction, returned in the order requested.
+   */
+  async getAll<T = DocumentData>(...refs: DocumentReference<T>[]): Promise<DocumentSnapshot<T>[]> {
+    return this.firestore.batchGet(refs, undefined, this.readOptions());
+  }
+
+  create<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): this {
+    this.writable().create(ref, data);
+    return this;
+  }
+
+  set<T = DocumentData>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options?: SetOptions): this;
+  set<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): this;
+  set<T = DocumentData>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options?: SetOptions): this {
+    this.writable().set(ref, data, options);
+    return this;
+  }
+
+  update<T = DocumentData>(ref: DocumentReference<T>, data: UpdateData<T>, precondition?: Precondition): this;
+  update<T = DocumentData>(
+    ref: DocumentReference<T>,
+    field: string | FieldPath,
+    value: unknown,
+    ...moreFieldsAndValues: unknown[]
+  ): this;
+  update<T = DocumentData>(
+    ref: DocumentReference<T>,
+    dataOrField: UpdateData<T> | string | FieldPath,
+    ...rest: unknown[]
+  ): this {
+    this.writable().update(ref, dataOrField as string, ...(rest as [unknown]));
+    return this;
+  }
+
+  delete<T = DocumentData>(ref: DocumentReference<T>, precondition?: Precondition): this {
+    this.writable().delete(ref, precondition);
+    return this;
+  }
+
+  async [beginSymbol](retryTransaction?: string): Promise<void> {
+    // A read-only transaction at a fixed time doesn't need a server transaction, every read just uses the readTime.
+    if (this.readTime) return;
+    const options: api.TransactionOptions = this.readOnly ? { readOnly: {} } : { readWrite: { retryTransaction } };
+    const response = await this.firestore.request<api.BeginTransactionResponse>('POST', ':beginTransaction', {
+      options,
+    });
+    this[transactionSymbol] = response.transaction;
+  }
+
+  async [commitSymbol](): Promise<void> {
+    if (this.readOnly) return;
+    await this[writesSymbol][commitSymbol](this[transactionSymbol]!);
+  }
+
+  async [rollbackSymbol](): Promise<void> {
+    if (!this[transactionSymbol]) return;
+    try {
+      await this.firestore.request('POST', ':rollback', { transaction: this[transactionSymbol] });
+    } catch (err) {
+      // The transaction may already be gone (e.g. an aborted commit), it will expire on its own either way.
+    }
+  }
+
+  private readOptions(): ReadTransactionOptions {
+    if (this[writesSymbol].length) {
+      throw new Error('Firestore transactions require all reads to be executed before all writes.');
+    }
+    return this.readTime ? { readTime: this.readTime } : { transaction: this[transactionSymbol] };
+  }
+
+  private writable(): WriteBatch {
+    if (this.readOnly) throw new Error('Firestore read-only transactions cannot execute writes.');
+    return this[writesSymbol];
+  }
+}
@@ -1,4 +1,7 @@
+import type { DocumentSnapshot } from './document';
 import type { FieldValue } from './field-value';
+import type { Timestamp } from './timestamp';
+import type { VectorValue } from './vector-value';
 
 /**
  * Document data (for use with `DocumentReference.set()`) consists of fields
@@ -97,7 +100,33 @@ export type UnionToIntersection<U> = (U extends unknown ? (k: U) => void : never
   ? I
   : never;
 
-export type SetOptions = { readonly merge?: boolean };
+export type SetOptions = { readonly merge?: boolean; readonly precondition?: Precondition };
+
+/**
+ * A condition a document must meet for a write to be applied, for optimistic concurrency without a transaction. Only
+ * one of `exists` and `lastUpdateTime` may be given. A write whose precondition isn't met fails with a
+ * `FailedPreconditionError` and changes nothing.
+ */
+export interface Precondition {
+  /** Only write if the document exists (`true`) or doesn't exist (`false`). */
+  readonly exists?: boolean;
+  /**
+   * Only write if the document was last updated at exactly this time, e.g. the `updateTimestamp` of a snapshot. A
+   * `Date` only holds milliseconds, so one rarely matches Firestore's microsecond update times.
+   */
+  readonly lastUpdateTime?: Date | Timestamp;
+}
+
+/**
+ * Converts between your own types and the data stored in Firestore, for use with `withConverter()`. `toFirestore` is
+ * called for `set()` and `create()` writes, `fromFirestore` whenever a snapshot's `data()` is read. Data passed to
+ * `update()` is written as is.
+ */
+export interface FirestoreDataConverter<T> {
+  toFirestore(modelObject: WithFieldValue<T>): DocumentData;
+  toFirestore(modelObject: PartialWithFieldValue<T>, options: SetOptions): DocumentData;
+  fromFirestore(snapshot: DocumentSnapshot): T;
+}
 
 export type WhereFilterOp =
   | '<'
@@ -113,11 +142,71 @@ export type WhereFilterOp =
 
 export type OrderByDirection = 'desc' | 'asc';
 
+export type VectorDistanceMeasure = 'EUCLIDEAN' | 'COSINE' | 'DOT_PRODUCT';
+
+export interface VectorQueryOptions {
+  /** The field holding the vectors to compare, which needs a vector index. */
+  vectorField: string;
+  /** The vector to find the nearest neighbors of. */
+  queryVector: VectorValue | number[];
+  /** The maximum number of neighbors to return, at most 1000. */
+  limit: number;
+  distanceMeasure: VectorDistanceMeasure;
+  /** A field to return the computed distance of each result in. */
+  distanceResultField?: string;
+  /**
+   * Only return results within this distance. For `DOT_PRODUCT`, results with a value greater than or equal to the
+   * threshold are returned instead.
+   */
+  distanceThreshold?: number;
+}
+
 export interface ReadTransactionOptions {
   transaction?: string;
   readTime?: string;
 }
 
+export interface TransactionOptions {
+  /**
+   * Only allow reads. Read-only transactions don't lock documents, so they never contend with other transactions.
+   */
+  readOnly?: boolean;
+  /**
+   * Read documents as they were at this time. Only valid for read-only transactions.
+   */
+  readTime?: Date | Timestamp;
+  /**
+   * How many times to attempt the transaction when it is aborted by contention. Defaults to 5.
+   */
+  maxAttempts?: number;
+}
+
+export interface WriteBatchOptions {
+  /**
+   * Commit the batch atomically through `:commit`, so either every write is applied or none are. Defaults to `false`,
+   * which commits through `:batchWrite` where each write succeeds or fails on its own.
+   */
+  atomic?: boolean;
+}
+
+export interface ListDocumentsOptions {
+  /** How many documents to request per page. */
+  pageSize?: number;
+  /** Include missing documents, which don't exist but have subcollections. Defaults to `true`. */
+  showMissing?: boolean;
+  /** The fields to return for each document. */
+  mask?: string[];
+  /** List the documents as they were at this time. */
+  readTime?: Date | Timestamp;
+}
+
+export interface ListCollectionsOptions {
+  /** How many collection ids to request per page. */
+  pageSize?: number;
+  /** List the collections as they were at this time. */
+  readTime?: Date | Timestamp;
+}
+
 export interface ReadOptions {
   readonly fieldMask?: string[];
 }
@@ -137,7 +226,7 @@ export namespace api {
     nullValue?: null;
     booleanValue?: boolean;
     integerValue?: string;
-    doubleValue?: number;
+    doubleValue?: number | string;
     timestampValue?: string;
     stringValue?: string;
     bytesValue?: string;
@@ -197,6 +286,10 @@ export namespace api {
 
   export interface CommitRequest {
     writes: Write[];
+    transaction?: string;
+  }
+
+  export interface RollbackRequest {
     transaction: string;
   }
 
@@ -256,7 +349,7 @@ export namespace api {
   }
 
   export interface CollectionSelector {
-    collectionId: string;
+    collectionId?: string;
     allDescendants?: boolean;
   }
 
@@ -274,6 +367,16 @@ export namespace api {
     endAt?: Cursor;
     offset?: number;
     limit?: number;
+    findNearest?: FindNearest;
+  }
+
+  export interface FindNearest {
+    vectorField: FieldReference;
+    queryVector: Value;
+    distanceMeasure: FindNearestDistanceMeasure;
+    limit: number;
+    distanceResultField?: string;
+    distanceThreshold?: number;
   }
 
   export interface StructuredQueryOrder {
@@ -281,6 +384,20 @@ export namespace api {
     direction?: StructuredQueryDirection;
   }
 
+  export interface StructuredAggregationQuery {
+    structuredQuery: StructuredQuery;
+    aggregations: Aggregation[];
+  }
+
+  export interface Aggregation {
+    alias?: string;
+    // Union field operator can be only one of the following:
+    count?: { upTo?: number };
+    sum?: { field: FieldReference };
+    avg?: { field: FieldReference };
+    // End of list of possible types for union field operator.
+  }
+
   export interface StructuredQueryProjection {
     fields?: FieldReference[];
   }
@@ -290,7 +407,7 @@ export namespace api {
     direction?: StructuredQueryDirection;
   }
 
-  export type CompositeFilterOperator = 'OPERATOR_UNSPECIFIED' | 'AND';
+  export type CompositeFilterOperator = 'OPERATOR_UNSPECIFIED' | 'AND' | 'OR';
   export type FieldFilterOperator =
     | 'OPERATOR_UNSPECIFIED'
     | 'LESS_THAN'
@@ -304,6 +421,7 @@ export namespace api {
     | 'ARRAY_CONTAINS_ANY'
     | 'NOT_IN';
   export type UnaryFilterOperator = 'OPERATOR_UNSPECIFIED' | 'IS_NAN' | 'IS_NULL' | 'IS_NOT_NAN' | 'IS_NOT_NULL';
+  export type FindNearestDistanceMeasure = 'DISTANCE_MEASURE_UNSPECIFIED' | 'EUCLIDEAN' | 'COSINE' | 'DOT_PRODUCT';
   export type StructuredQueryDirection = 'DIRECTION_UNSPECIFIED' | 'ASCENDING' | 'DESCENDING';
 
   export enum ServerValue {
@@ -330,11 +448,11 @@ export namespace api {
   }
 
   export interface ReadOnly {
-    readTime: string;
+    readTime?: string;
   }
 
   export interface ReadWrite {
-    retryTransaction: string;
+    retryTransaction?: string;
   }
 
   export interface Precondition {
@@ -355,15 +473,25 @@ export namespace api {
   }
 
   export interface ListCollectionIdsResponse {
-    collectionIds: string[];
+    collectionIds?: string[];
     nextPageToken?: string;
   }
 
   export interface ListDocumentsResponse {
-    documents: Document[];
+    documents?: Document[];
     nextPageToken?: string;
   }
 
+  export interface RunQueryRequest {
+    structuredQuery: StructuredQuery;
+    explainOptions?: ExplainOptions;
+    // Union field consistency_selector can be only one of the following:
+    transaction?: string;
+    newTransaction?: TransactionOptions;
+    readTime?: string;
+    // End of list of possible types for union field consistency_selector.
+  }
+
   export interface RunQueryResponse {
     error?: { code: number; message: string; status: string };
     transaction?: string;
@@ -371,6 +499,43 @@ export namespace api {
     readTime: string;
     skippedResults?: number;
     done?: boolean;
+    explainMetrics?: ExplainMetrics;
+  }
+
+  export interface ExplainOptions {
+    analyze?: boolean;
+  }
+
+  export interface ExplainMetrics {
+    planSummary?: { indexesUsed?: Record<string, unknown>[] };
+    executionStats?: {
+      resultsReturned?: string;
+      executionDuration?: string;
+      readOperations?: string;
+      debugStats?: Record<string, unknown>;
+    };
+  }
+
+  export interface RunAggregationQueryRequest {
+    structuredAggregationQuery: StructuredAggregationQuery;
+    explainOptions?: ExplainOptions;
+    // Union field consistency_selector can be only one of the following:
+    transaction?: string;
+    newTransaction?: TransactionOptions;
+    readTime?: string;
+    // End of list of possible types for union field consistency_selector.
+  }
+
+  export interface RunAggregationQueryResponse {
+    error?: { code: number; message: string; status: string };
+    result?: AggregationResult;
+    transaction?: string;
+    readTime: string;
+    explainMetrics?: ExplainMetrics;
+  }
+
+  export interface AggregationResult {
+    aggregateFields: { [alias: string]: Value };
   }
 
   export interface Status {
@@ -381,4 +546,28 @@ export namespace api {
       [key: string]: any;
     }[];
   }
+
+  export interface BundledQuery {
+    parent: string;
+    structuredQuery: StructuredQuery;
+    limitType: 'FIRST' | 'LAST';
+  }
+
+  export interface BundleTimestamp {
+    seconds: number;
+    nanos: number;
+  }
+
+  export interface BundleElement {
+    metadata?: {
+      id: string;
+      createTime: BundleTimestamp;
+      version: number;
+      totalDocuments: number;
+      totalBytes: number;
+    };
+    namedQuery?: { name: string; bundledQuery: BundledQuery; readTime: BundleTimestamp };
+    documentMetadata?: { name: string; readTime: BundleTimestamp; exists: boolean; queries: string[] };
+    document?: Document;
+  }
 }
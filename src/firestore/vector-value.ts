@@ -0,0 +1,20 @@
+/**
+ * A vector embedding stored in a document field, created with `FieldValue.vector()`. Use it with
+ * `Query.findNearest()` for similarity search.
+ */
+export class VectorValue {
+  private readonly values: number[];
+
+  constructor(values: number[]) {
+    this.values = values.slice();
+  }
+
+  toArray(): number[] {
+    return this.values.slice();
+  }
+
+  isEqual(other: VectorValue): boolean {
+    const values = other.toArray();
+    return values.length === this.values.length && values.every((value, i) => value === this.values[i]);
+  }
+}
@@ -1,52 +1,108 @@
-import { UpdateCollector } from './field-value';
+import { escapeFieldSegment, UpdateCollector } from './field-value';
 import { Firestore } from './firestore';
-import { DocumentReference } from './reference';
+import { DocumentReference, FieldPath } from './reference';
 import { encode } from './serializer';
-import { BatchWriteError, type BatchWriteFailure } from '../status-error';
-import { updateSymbol, writesSymbol } from './symbols';
-import type { DocumentData, PartialWithFieldValue, SetOptions, UpdateData, WithFieldValue, api } from './types';
+import {
+  BatchWriteError,
+  FailedPreconditionError,
+  StatusCode,
+  StatusError,
+  type BatchWriteFailure,
+} from '../status-error';
+import { assertWritableSymbol, cacheSymbol, commitSymbol, updateSymbol, writesSymbol } from './symbols';
+import { Timestamp } from './timestamp';
+import { decodeWriteResult, type WriteResult } from './write-result';
+import type {
+  DocumentData,
+  PartialWithFieldValue,
+  Precondition,
+  SetOptions,
+  UpdateData,
+  WithFieldValue,
+  WriteBatchOptions,
+  api,
+} from './types';
 
 export class WriteBatch {
-  private [writesSymbol]: api.Write[] = [];
+  readonly [writesSymbol]: api.Write[] = [];
+  readonly atomic: boolean;
+  // The writes given a precondition by the caller
+  private readonly preconditioned = new Set<api.Write>();
 
-  constructor(readonly firestore: Firestore) {}
+  constructor(
+    readonly firestore: Firestore,
+    options?: WriteBatchOptions
+  ) {
+    this.atomic = options?.atomic ?? false;
+  }
 
   get length() {
     return this[writesSymbol].length;
   }
 
   create<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): this {
-    return this[updateSymbol](ref, data, UpdateType.create);
+    const converted = ref.converter ? ref.converter.toFirestore(data) : data;
+    return this[updateSymbol](ref, converted, UpdateType.create, { exists: false });
   }
 
   set<T = DocumentData>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options?: SetOptions): this;
   set<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): this;
   set<T = DocumentData>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options?: SetOptions): this {
-    return this[updateSymbol](ref, data, options?.merge ? UpdateType.update : UpdateType.set);
+    let converted: unknown = data;
+    if (ref.converter) {
+      converted = options
+        ? ref.converter.toFirestore(data, options)
+        : ref.converter.toFirestore(data as WithFieldValue<T>);
+    }
+    const type = options?.merge ? UpdateType.update : UpdateType.set;
+    return this[updateSymbol](ref, converted, type, options?.precondition);
   }
 
-  update<T = DocumentData>(ref: DocumentReference<T>, data: UpdateData<T>): this {
-    return this[updateSymbol](ref, data, UpdateType.update);
+  /**
+   * Update fields of a document, given as a map whose keys are dotted field paths, e.g. `{ 'address.city': 'Paris' }`,
+   * or as field and value arguments, where a `FieldPath` can name fields with dots in them. A precondition may follow
+   * the last value.
+   */
+  update<T = DocumentData>(ref: DocumentReference<T>, data: UpdateData<T>, precondition?: Precondition): this;
+  update<T = DocumentData>(
+    ref: DocumentReference<T>,
+    field: string | FieldPath,
+    value: unknown,
+    ...moreFieldsAndValues: unknown[]
+  ): this;
+  update<T = DocumentData>(
+    ref: DocumentReference<T>,
+    dataOrField: UpdateData<T> | string | FieldPath,
+    ...rest: unknown[]
+  ): this {
+    const { fields, precondition } = updateArguments(dataOrField, rest);
+    return this[updateSymbol](ref, expandFieldPaths(fields), UpdateType.update, precondition);
   }
 
-  delete<T = DocumentData>(ref: DocumentReference<T>, precondition?: api.Precondition): this {
-    this[writesSymbol].push({
-      delete: ref.qualifiedPath,
-      currentDocument: precondition,
-    });
+  delete<T = DocumentData>(ref: DocumentReference<T>, precondition?: Precondition): this {
+    const write: api.Write = { delete: ref.qualifiedPath, currentDocument: encodePrecondition(precondition) };
+    this[writesSymbol].push(write);
+    if (write.currentDocument) this.preconditioned.add(write);
     return this;
   }
 
-  async commit(): Promise<Array<Date | undefined>> {
+  async commit(): Promise<WriteResult[]> {
+    this.firestore[assertWritableSymbol]();
     Object.freeze(this[writesSymbol]);
-    if (this.firestore[writesSymbol]) {
-      // transaction
-      this.firestore[writesSymbol]!.push(...this[writesSymbol]);
-      return [];
+    if (this.atomic) {
+      const response = await this[commitSymbol]();
+      return this[writesSymbol].map((write, i) =>
+        decodeWriteResult(this.firestore, write, response.writeResults[i], response.commitTime)
+      );
+    }
+    let response: api.BatchWriteResponse;
+    try {
+      response = await this.firestore.request<api.BatchWriteResponse>('POST', ':batchWrite', {
+        writes: this[writesSymbol],
+      });
+    } finally {
+      await this.firestore[cacheSymbol]?.invalidate(this[writesSymbol]);
     }
-    const response = await this.firestore.request<api.BatchWriteResponse>('POST', ':batchWrite', {
-      writes: this[writesSymbol],
-    });
     // :batchWrite is non-atomic: each write has an independent status.
     // Surface per-write failures so callers can retry just the failed ones
     // instead of silently losing writes under load (hot partitions, rate
@@ -60,35 +116,148 @@ export class WriteBatch {
         }
       }
     }
+    if (failures.length > 0 && failures.every(f => this.failedPrecondition(f.code, [this[writesSymbol][f.index]!]))) {
+      const message =
+        failures.length === 1
+          ? failures[0].message
+          : `${failures.length} writes failed their preconditions; first: ${failures[0].message}`;
+      throw new FailedPreconditionError(message, failures);
+    }
     if (failures.length > 0) {
       throw new BatchWriteError(failures);
     }
-    return response.writeResults.map(result => (result.updateTime ? new Date(result.updateTime) : undefined));
+    return this[writesSymbol].map((write, i) => decodeWriteResult(this.firestore, write, response.writeResults[i]));
   }
 
-  [updateSymbol]<T = DocumentData>(ref: DocumentReference<T>, data: any, type: UpdateType): this {
+  /**
+   * Commits the writes atomically through `:commit`, within `transaction` if given.
+   */
+  async [commitSymbol](transaction?: string): Promise<api.CommitResponse> {
+    const request: api.CommitRequest = { writes: this[writesSymbol], transaction };
+    try {
+      const response = await this.firestore.request<api.CommitResponse>('POST', ':commit', request);
+      return { ...response, writeResults: response.writeResults ?? [] };
+    } catch (err) {
+      if (err instanceof StatusError && this.failedPrecondition(err.code, this[writesSymbol])) {
+        throw new FailedPreconditionError(err.message);
+      }
+      throw err;
+    } finally {
+      await this.firestore[cacheSymbol]?.invalidate(this[writesSymbol]);
+    }
+  }
+
+  [updateSymbol]<T = DocumentData>(
+    ref: DocumentReference<T>,
+    data: any,
+    type: UpdateType,
+    precondition?: Precondition
+  ): this {
+    const currentDocument = encodePrecondition(precondition);
     const collector = new UpdateCollector();
     const fields = encode(data, collector);
+    if (collector.deletes.length && type !== UpdateType.update) {
+      throw new Error('FieldValue.delete() can only be used with update() or set() with merge.');
+    }
 
+    let write: api.Write | undefined;
     if (!collector.mask.fieldPaths.length && type === UpdateType.update) {
       if (collector.transforms.length) {
-        this[writesSymbol].push({
-          transform: { document: ref.qualifiedPath, fieldTransforms: collector.transforms },
-        });
+        write = { transform: { document: ref.qualifiedPath, fieldTransforms: collector.transforms }, currentDocument };
       } else {
         // nothing changed, nothing to update, no-op
       }
     } else {
-      const write: api.Write = {
+      write = {
         update: { name: ref.qualifiedPath, fields },
         updateMask: type === UpdateType.update ? collector.mask : undefined,
         updateTransforms: collector.transforms.length ? collector.transforms : undefined,
-        currentDocument: type === UpdateType.create ? { exists: true } : undefined,
+        currentDocument,
       };
+    }
+    if (write) {
       this[writesSymbol].push(write);
+      // create() has its own precondition, failing it isn't a precondition error
+      if (currentDocument && type !== UpdateType.create) this.preconditioned.add(write);
     }
     return this;
   }
+
+  // Firestore reports a failed `exists` precondition as NOT_FOUND or ALREADY_EXISTS, the same as a failed create(), so
+  // those only count as precondition errors when a write was given one
+  private failedPrecondition(code: number, writes: api.Write[]): boolean {
+    if (code === StatusCode.FAILED_PRECONDITION) return true;
+    if (code !== StatusCode.NOT_FOUND && code !== StatusCode.ALREADY_EXISTS) return false;
+    return writes.some(write => this.preconditioned.has(write));
+  }
+}
+
+/**
+ * The fields `update()` was given, as segments and values, and the precondition after them if any.
+ */
+function updateArguments(
+  dataOrField: unknown,
+  rest: unknown[]
+): { fields: [string[], unknown][]; precondition?: Precondition } {
+  if (typeof dataOrField !== 'string' && !(dataOrField instanceof FieldPath)) {
+    const fields = Object.entries(dataOrField as DocumentData).map(([key, value]): [string[], unknown] => [
+      key.split('.'),
+      value,
+    ]);
+    return { fields, precondition: rest[0] as Precondition | undefined };
+  }
+  const args = [dataOrField, ...rest];
+  // Fields and values come in pairs, so an odd argument at the end is the precondition
+  const precondition = args.length % 2 ? (args.pop() as Precondition | undefined) : undefined;
+  const fields: [string[], unknown][] = [];
+  for (let i = 0; i < args.length; i += 2) {
+    const field = args[i];
+    if (typeof field === 'string') fields.push([field.split('.'), args[i + 1]]);
+    else if (field instanceof FieldPath) fields.push([field.segments, args[i + 1]]);
+    else throw new Error(`Argument ${i + 2} of update() must be a field path.`);
+  }
+  return { fields, precondition };
+}
+
+/**
+ * `update()` takes field paths, e.g. `address.city`, to write nested fields without replacing their siblings. Expands
+ * them into nested maps for `encode()`.
+ */
+function expandFieldPaths(fields: [string[], unknown][]): DocumentData {
+  const expanded: DocumentData = {};
+  // Maps created for shared prefixes such as `address` in `address.city` and `address.zip`
+  const created = new Set<DocumentData>();
+  for (const [path, value] of fields) {
+    const key = path.map(escapeFieldSegment).join('.');
+    const segments = path.slice();
+    const field = segments.pop()!;
+    let target = expanded;
+    for (const segment of segments) {
+      if (target[segment] === undefined) created.add((target[segment] = {}));
+      else if (!created.has(target[segment])) {
+        throw new Error(`Field path ${key} conflicts with another field in the update.`);
+      }
+      target = target[segment];
+    }
+    if (target[field] !== undefined) {
+      throw new Error(`Field path ${key} conflicts with another field in the update.`);
+    }
+    target[field] = value;
+  }
+  return expanded;
+}
+
+function encodePrecondition(precondition?: Precondition): api.Precondition | undefined {
+  if (!precondition) return undefined;
+  const { exists, lastUpdateTime } = precondition;
+  if (exists !== undefined && lastUpdateTime !== undefined) {
+    throw new Error('A precondition can only specify one of exists and lastUpdateTime.');
+  }
+  if (lastUpdateTime !== undefined) {
+    const time = lastUpdateTime instanceof Timestamp ? lastUpdateTime : Timestamp.fromDate(lastUpdateTime);
+    return { updateTime: time.toISOString() };
+  }
+  return exists !== undefined ? { exists } : undefined;
 }
 
 enum UpdateType {
@@ -0,0 +1,38 @@
+import type { Firestore } from './firestore';
+import { decodeValue } from './serializer';
+import { Timestamp } from './timestamp';
+import type { api } from './types';
+
+/**
+ * The result of a single write. `transformResults` holds the new value of each field written with a transform such as
+ * `FieldValue.increment()` or `FieldValue.serverTimestamp()`, keyed by field path, so it can be used without reading
+ * the document again.
+ */
+export class WriteResult {
+  constructor(
+    /** When the document was last updated by this write. Not set for deletes. */
+    readonly updateTime: Timestamp | undefined,
+    /** When the write was committed. Only set for atomic batches, where every write shares the same commit time. */
+    readonly commitTime: Timestamp | undefined,
+    readonly transformResults: Record<string, any>
+  ) {}
+}
+
+export function decodeWriteResult(
+  firestore: Firestore,
+  write: api.Write,
+  result: api.WriteResult | undefined,
+  commitTime?: string
+): WriteResult {
+  const transforms = write.updateTransforms ?? write.transform?.fieldTransforms ?? [];
+  const transformResults: Record<string, any> = {};
+  result?.transformResults?.forEach((value, i) => {
+    const transform = transforms[i];
+    if (transform) transformResults[transform.fieldPath] = decodeValue(firestore, value);
+  });
+  return new WriteResult(
+    result?.updateTime ? Timestamp.fromISOString(result.updateTime) : undefined,
+    commitTime ? Timestamp.fromISOString(commitTime) : undefined,
+    transformResults
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Parse a JSON array from a stream, yielding each element as soon as it has been received instead of waiting for the
+ * whole array. The elements must be objects or arrays, as they are in Firestore's streamed responses.
+ */
+export async function* parseJSONArray<T>(stream: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  // Where the element being received starts in the buffer, and how far the buffer has been scanned
+  let start = -1;
+  let scanned = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      for (let i = scanned; i < buffer.length; i++) {
+        const char = buffer[i];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === '\\') escaped = true;
+          else if (char === '"') inString = false;
+        } else if (char === '"') {
+          inString = true;
+        } else if (char === '{' || char === '[') {
+          if (depth === 1) start = i;
+          depth++;
+        } else if (char === '}' || char === ']') {
+          depth--;
+          if (depth === 1) {
+            yield JSON.parse(buffer.slice(start, i + 1));
+            start = -1;
+          }
+        }
+      }
+
+      // Only keep the element still being received
+      buffer = start === -1 ? '' : buffer.slice(start);
+      if (start !== -1) start = 0;
+      scanned = buffer.length;
+    }
+    if (depth !== 0) throw new Error('Unexpected end of JSON response');
+  } finally {
+    // Stops the download if the caller stopped reading early
+    await reader.cancel().catch(() => {});
+  }
+}
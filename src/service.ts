@@ -1,3 +1,4 @@
+import { parseJSONArray } from './json-stream';
 import { StatusError } from './status-error';
 import { Aud, getTokenGetter } from './tokens';
 import type {
@@ -13,6 +14,10 @@ export class FirebaseService {
   getToken: TokenGetter;
   protected readonly settings: Settings;
   protected apiUrl: string;
+  /**
+   * Sends the service's requests. This is `fetch()` unless replaced, e.g. by `Firestore.useMemory()`.
+   */
+  protected fetch: (input: string, init: RequestInit) => Promise<Response> = (input, init) => fetch(input, init);
 
   constructor(
     service: keyof Aud,
@@ -66,6 +71,36 @@ export class FirebaseService {
     body?: object | string | boolean,
     authorized?: string | boolean
   ): Promise<T> {
+    const response = await this.send(method, path, searchOrBody, body, authorized);
+    const data = (await response.json()) as any;
+    if (data.error) {
+      throw new StatusError(data.error.code, data.error.message, data.error.status);
+    }
+    return data;
+  }
+
+  /**
+   * Make a request that responds with a JSON array, yielding its elements as they arrive rather than waiting for the
+   * whole response.
+   */
+  async *stream<T>(method: HTTPMethod, path: string, body?: object, authorized?: string | boolean): AsyncGenerator<T> {
+    const response = await this.send(method, path, body, authorized);
+    if (!response.ok) {
+      // Gateways can answer with an HTML error page instead of Firestore's JSON error
+      const data = (await response.json().catch(() => undefined)) as any;
+      const { error } = (Array.isArray(data) ? data[0] : data) ?? {};
+      throw new StatusError(error?.code ?? response.status, error?.message ?? response.statusText, error?.status);
+    }
+    if (response.body) yield* parseJSONArray<T>(response.body);
+  }
+
+  private async send(
+    method: HTTPMethod,
+    path: string,
+    searchOrBody?: URLSearchParams | object,
+    body?: object | string | boolean,
+    authorized?: string | boolean
+  ): Promise<Response> {
     if (typeof body === 'boolean' || typeof body === 'string') {
       authorized = body;
       body = undefined;
@@ -80,16 +115,11 @@ export class FirebaseService {
     } else if (authorized !== false) {
       headers.Authorization = `Bearer ${await this.getToken()}`;
     }
-    const response = await fetch(`${this.apiUrl}${path}?${searchParams}`, {
+    return this.fetch(`${this.apiUrl}${path}?${searchParams}`, {
       method,
       body: body !== undefined ? JSON.stringify(body) : undefined,
       headers,
     });
-    const data = (await response.json()) as any;
-    if (data.error) {
-      throw new StatusError(data.error.code, data.error.message);
-    }
-    return data;
   }
 
   userRequest<T>(method: HTTPMethod, path: string, search?: URLSearchParams, body?: object): Promise<T>;
@@ -1,12 +1,38 @@
+import type { DocumentReference } from './firestore/reference';
+
 export class StatusError extends Error {
   constructor(
     public code: number,
-    message: string
+    message: string,
+    public status?: string
   ) {
     super(message);
   }
 }
 
+/**
+ * The canonical gRPC status codes Firestore reports for individual writes, e.g. in `:batchWrite` responses.
+ */
+export enum StatusCode {
+  OK = 0,
+  CANCELLED = 1,
+  UNKNOWN = 2,
+  INVALID_ARGUMENT = 3,
+  DEADLINE_EXCEEDED = 4,
+  NOT_FOUND = 5,
+  ALREADY_EXISTS = 6,
+  PERMISSION_DENIED = 7,
+  RESOURCE_EXHAUSTED = 8,
+  FAILED_PRECONDITION = 9,
+  ABORTED = 10,
+  OUT_OF_RANGE = 11,
+  UNIMPLEMENTED = 12,
+  INTERNAL = 13,
+  UNAVAILABLE = 14,
+  DATA_LOSS = 15,
+  UNAUTHENTICATED = 16,
+}
+
 export interface BatchWriteFailure {
   index: number;
   code: number;
@@ -33,3 +59,32 @@ export class BatchWriteError extends StatusError {
     super(first.code, summary);
   }
 }
+
+/**
+ * Reported by `BulkWriter` for a write that failed. It is passed to the `onWriteError()` callback after every failed
+ * attempt, and rejects the write's promise once the write won't be retried any more.
+ */
+export class BulkWriterError extends StatusError {
+  constructor(
+    code: number,
+    message: string,
+    public ref: DocumentReference<any>,
+    public operationType: 'create' | 'set' | 'update' | 'delete',
+    public failedAttempts: number
+  ) {
+    super(code, message, StatusCode[code]);
+  }
+}
+
+/**
+ * Thrown when a write's precondition doesn't hold, e.g. the document was updated since the `lastUpdateTime` it was
+ * written against. For batches, `failures` lists the writes that were rejected.
+ */
+export class FailedPreconditionError extends StatusError {
+  constructor(
+    message: string,
+    public failures: BatchWriteFailure[] = []
+  ) {
+    super(StatusCode.FAILED_PRECONDITION, message, 'FAILED_PRECONDITION');
+  }
+}
@@ -1,4 +1,5 @@
-import { sign } from '@tsndr/cloudflare-worker-jwt';
+import { decode, sign } from '@tsndr/cloudflare-worker-jwt';
+import type { Tokens } from './auth/types';
 import type { ServiceAccount, TokenGetter } from './types';
 
 const exp = 3600;
@@ -55,6 +56,34 @@ export function getOauthTokenGetter(settings: ServiceAccount) {
   };
 }
 
+// Use a signed-in user's ID token in API calls, refreshing it shortly before it expires when there's a refresh token
+export function getUserTokenGetter(
+  tokens: string | Tokens,
+  refresh: (refreshToken: string) => Promise<Tokens>,
+  onRefresh?: (tokens: Tokens) => void
+): TokenGetter {
+  let idToken = typeof tokens === 'string' ? tokens : tokens.idToken;
+  let refreshToken = typeof tokens === 'string' ? undefined : tokens.refreshToken;
+  let refreshing: Promise<string> | undefined;
+
+  return async function getToken(): Promise<string> {
+    const tokenExp = decode<{ exp?: number }>(idToken).payload?.exp;
+    if (!refreshToken || !tokenExp || now() <= tokenExp - 60) return idToken;
+
+    if (!refreshing) {
+      refreshing = refresh(refreshToken)
+        .then(tokens => {
+          idToken = tokens.idToken;
+          refreshToken = tokens.refreshToken;
+          onRefresh?.(tokens);
+          return idToken;
+        })
+        .finally(() => (refreshing = undefined));
+    }
+    return refreshing;
+  };
+}
+
 // Create firebase service account JWT to use in API calls
 export async function createToken(
   serviceAccount: ServiceAccount,